@@ -1,19 +1,25 @@
 /**
  * Claude/GPT Streaming API Route
- * Edge runtime for low-latency streaming responses
+ * Streams retrieval progress, sources and the model's answer as Server-Sent Events
  * BYOK: API key provided by client
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import { SYSTEM_PROMPT } from '@/lib/prompt/system';
 import { queryWithRobotContext, formatContextForPrompt, ensureRAGInitialized, getRAGStatus } from '@/lib/rag/query';
-import { buildFullGenerationPrompt } from '@/lib/modes/full-generation';
-import { buildAssistPrompt } from '@/lib/modes/assist';
+import { buildFullGenerationPrompt, extractFiles } from '@/lib/modes/full-generation';
+import { applyDiffs, buildAssistPrompt, extractDiffs, validateAssistFiles } from '@/lib/modes/assist';
 import { buildCopilotPlanPrompt, buildCopilotGeneratePrompt } from '@/lib/modes/copilot';
+import { contextBudgetForModel, chunkLimitForBudget, estimateTokens } from '@/lib/rag/context';
+import { DEFAULT_MODELS, estimateCost, getModelInfo, resolveMaxTokens, validateProviderConfig } from '@/lib/models';
+import { createProvider, streamWithContinuation, toErrorPayload, MAX_CONTINUATIONS } from '@/lib/providers';
+import { encodeStreamEvent, SSE_HEADERS } from '@/lib/stream';
+import { createLogger, registerSecret, withLogContext } from '@/lib/logger';
+import { APIErrorPayload, GeneratedFile, ProviderConfig, RetrievalPreferences, StreamResponse } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
+const log = createLogger('API');
+
 interface RequestBody {
   mode: 'full-generation' | 'assist' | 'copilot';
   robotConfig: any;
@@ -22,11 +28,28 @@ interface RequestBody {
   copilotPhase?: 'plan' | 'generate';
   approvedPlan?: string;
   apiKey: string;
-  provider: 'anthropic' | 'openai';
+  provider: ProviderConfig['provider'];
   model?: string;
+  baseURL?: string;
+  contextWindow?: number;
+  maxTokens?: number;       // output limit for this mode; clamped to the model's maximum
+  retrieval?: Partial<RetrievalPreferences>;
+  existingFiles?: GeneratedFile[]; // Assist: attached source files the diffs are written against
+}
+
+function errorResponse(payload: APIErrorPayload, status: number): Response {
+  return new Response(JSON.stringify({ ...payload, status }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
 }
 
 export async function POST(req: Request) {
+  // Every log line for this request, including retrieval and provider logs, carries its id
+  return withLogContext({ requestId: crypto.randomUUID().slice(0, 8) }, () => handleRequest(req));
+}
+
+async function handleRequest(req: Request): Promise<Response> {
   try {
     const body: RequestBody = await req.json();
     const {
@@ -39,184 +62,206 @@ export async function POST(req: Request) {
       apiKey,
       provider = 'anthropic',
       model,
+      baseURL,
+      contextWindow,
+      maxTokens,
+      retrieval,
+      existingFiles = [],
     } = body;
+    registerSecret(apiKey);
+
+    const providerConfig: ProviderConfig = {
+      provider,
+      apiKey,
+      model: model || DEFAULT_MODELS[provider],
+      baseURL,
+      contextWindow,
+    };
+    const configError = validateProviderConfig(providerConfig);
+    if (configError) {
+      return errorResponse({ kind: 'invalid_request', error: configError }, 400);
+    }
+
+    const attachedFiles = mode === 'assist' && Array.isArray(existingFiles) ? existingFiles : [];
+    const filesError = validateAssistFiles(attachedFiles);
+    if (filesError) {
+      return errorResponse({ kind: 'invalid_request', error: filesError }, 400);
+    }
 
-    if (!apiKey) {
-      return new Response('API key required', { status: 400 });
+    // Attached files go into the prompt whole, so they must leave room for sources and the answer
+    const contextBudget = contextBudgetForModel(providerConfig.model, contextWindow);
+    const outputTokens = resolveMaxTokens(providerConfig.model, maxTokens, contextWindow);
+    const filesTokens = attachedFiles.reduce((sum, file) => sum + estimateTokens(file.content), 0);
+    const filesBudget = (contextWindow || getModelInfo(providerConfig.model).contextWindow) - contextBudget - (outputTokens ?? 0);
+    if (attachedFiles.length > 0 && filesTokens > filesBudget) {
+      return errorResponse({
+        kind: 'context_length',
+        error: `Attached files are about ${filesTokens} tokens, but only ${Math.max(0, filesBudget)} fit in this model's context window alongside sources and the answer. Deselect some files.`,
+      }, 400);
     }
 
-    console.log('[API] Received request - Provider:', provider, 'Model:', model);
-    console.log('[API] API Key received:', apiKey ? `${apiKey.substring(0, 10)}... (length: ${apiKey.length})` : 'MISSING');
+    log.info('Request', {
+      mode: mode === 'copilot' ? `copilot:${copilotPhase ?? 'generate'}` : mode,
+      provider,
+      model: providerConfig.model,
+      key: apiKey ? 'provided' : 'none',
+      historyMessages: conversationHistory.length,
+      attachedFiles: attachedFiles.length || undefined,
+    });
 
     await ensureRAGInitialized();
     const ragStatus = getRAGStatus();
     if (!ragStatus.initialized || ragStatus.documentCount === 0) {
-      return new Response(
-        JSON.stringify({ error: 'RAG sources not ready yet. Please wait for initialization to finish.' }),
-        { status: 503, headers: { 'Content-Type': 'application/json' } }
+      return errorResponse(
+        { kind: 'not_ready', error: 'RAG sources not ready yet. Please wait for initialization to finish.' },
+        503
       );
     }
 
-    // RAG: Retrieve relevant documentation
-    const ragResult = await queryWithRobotContext(userPrompt, robotConfig, 5);
-    const retrievedContext = formatContextForPrompt(ragResult);
-
-    // Build mode-specific prompt
-    let userMessage = '';
-
-    if (mode === 'full-generation') {
-      userMessage = buildFullGenerationPrompt(userPrompt, robotConfig, retrievedContext);
-    } else if (mode === 'assist') {
-      userMessage = buildAssistPrompt(userPrompt, robotConfig, retrievedContext);
-    } else if (mode === 'copilot') {
-      if (copilotPhase === 'plan') {
-        userMessage = buildCopilotPlanPrompt(userPrompt, robotConfig, retrievedContext);
-      } else {
-        userMessage = buildCopilotGeneratePrompt(
-          userPrompt,
-          robotConfig,
-          retrievedContext,
-          approvedPlan || ''
-        );
-      }
-    }
+    const encoder = new TextEncoder();
+    const abortController = new AbortController();
 
-    // Call AI provider
-    if (provider === 'anthropic') {
-      return await streamClaude(apiKey, model, userMessage, conversationHistory);
-    } else {
-      return await streamOpenAI(apiKey, model, userMessage, conversationHistory);
-    }
-  } catch (error) {
-    console.error('API Error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
-}
+    const readable = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: StreamResponse) => {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        };
 
-async function streamClaude(
-  apiKey: string,
-  model: string | undefined,
-  userMessage: string,
-  history: Array<{ role: 'user' | 'assistant'; content: string }>
-) {
-  try {
-    console.log('[Anthropic] API Key prefix:', apiKey.substring(0, 10) + '...');
-    console.log('[Anthropic] API Key length:', apiKey.length);
+        // Transient provider failures are retried until the first token; the client shows the wait
+        const llm = createProvider(providerConfig, {
+          onRetry: (attempt, delayMs, error) =>
+            send({ type: 'retry', kind: error.payload.kind, status: error.payload.status, attempt, delayMs: Math.round(delayMs) }),
+        });
 
-    const anthropic = new Anthropic({
-      apiKey,
-      dangerouslyAllowBrowser: true
-    });
+        try {
+          // RAG: Retrieve relevant documentation, sized to the model's context window
+          send({ type: 'retrieval', status: 'started' });
+          const retrievalStart = Date.now();
 
-    const messages = [
-      ...history.map((msg) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      })),
-      { role: 'user' as const, content: userMessage },
-    ];
-
-    console.log('[Anthropic] Sending request with model:', model || 'claude-sonnet-4-5-20250929');
-
-    const stream = await anthropic.messages.stream({
-      model: model || 'claude-sonnet-4-5-20250929',
-      max_tokens: 8192,
-      system: SYSTEM_PROMPT,
-      messages,
-    });
+          const ragResult = await queryWithRobotContext(
+            userPrompt,
+            robotConfig,
+            chunkLimitForBudget(contextBudget),
+            retrieval,
+            providerConfig
+          );
+          const { context: retrievedContext, sources } = formatContextForPrompt(ragResult, { maxTokens: contextBudget });
+          const retrievalMs = Date.now() - retrievalStart;
 
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            if (
-              chunk.type === 'content_block_delta' &&
-              chunk.delta.type === 'text_delta'
-            ) {
-              controller.enqueue(encoder.encode(chunk.delta.text));
+          log.info('Context assembled', { sources: sources.length, contextBudget, retrievalMs });
+          send({
+            type: 'retrieval',
+            status: 'complete',
+            documentCount: sources.length,
+            durationMs: retrievalMs,
+          });
+          send({ type: 'sources', sources });
+
+          // Build mode-specific prompt
+          let userMessage = '';
+
+          if (mode === 'full-generation') {
+            userMessage = buildFullGenerationPrompt(userPrompt, robotConfig, retrievedContext);
+          } else if (mode === 'assist') {
+            userMessage = buildAssistPrompt(userPrompt, robotConfig, retrievedContext, attachedFiles);
+          } else if (mode === 'copilot') {
+            if (copilotPhase === 'plan') {
+              userMessage = buildCopilotPlanPrompt(userPrompt, robotConfig, retrievedContext);
+            } else {
+              userMessage = buildCopilotGeneratePrompt(
+                userPrompt,
+                robotConfig,
+                retrievedContext,
+                approvedPlan || ''
+              );
             }
           }
-          console.log('[Anthropic] Stream completed successfully');
-          controller.close();
-        } catch (error) {
-          console.error('[Anthropic] Stream error:', error);
-          controller.error(error);
-        }
-      },
-    });
 
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-  } catch (error) {
-    console.error('[Anthropic] Request failed:', error);
-    throw error;
-  }
-}
+          // Call AI provider, resuming if the reply stops at the output limit
+          const generationStart = Date.now();
+          const result = await streamWithContinuation(
+            llm,
+            {
+              model: providerConfig.model!,
+              system: SYSTEM_PROMPT,
+              messages: [
+                ...conversationHistory.map(({ role, content }) => ({ role, content })),
+                { role: 'user', content: userMessage },
+              ],
+              maxTokens: outputTokens,
+              signal: abortController.signal,
+            },
+            (content) => send({ type: 'delta', content }),
+            { onContinuation: (count) => send({ type: 'continuation', count, max: MAX_CONTINUATIONS }) }
+          );
 
-async function streamOpenAI(
-  apiKey: string,
-  model: string | undefined,
-  userMessage: string,
-  history: Array<{ role: 'user' | 'assistant'; content: string }>
-) {
-  try {
-    const openai = new OpenAI({ apiKey });
-
-    const messages = [
-      { role: 'system' as const, content: SYSTEM_PROMPT },
-      ...history.map((msg) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      })),
-      { role: 'user' as const, content: userMessage },
-    ];
-
-    console.log('[OpenAI] Sending request with model:', model || 'gpt-4o-mini');
-
-    const stream = await openai.chat.completions.create({
-      model: model || 'gpt-4o-mini',
-      messages,
-      stream: true,
-      max_tokens: 4096,
-    });
+          const costUSD = result.usage ? estimateCost(providerConfig.model, result.usage) : undefined;
+          log.info('Generation complete', {
+            model: providerConfig.model,
+            stopReason: result.stopReason,
+            continuations: result.continuations || undefined,
+            ...result.usage,
+            costUSD: costUSD?.toFixed(4),
+            generationMs: Date.now() - generationStart,
+          });
+          if (result.usage) {
+            send({ type: 'usage', ...result.usage, model: providerConfig.model, costUSD });
+          }
 
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const text = chunk.choices[0]?.delta?.content || '';
-            if (text) {
-              controller.enqueue(encoder.encode(text));
+          // Generated files are parsed once here so every client gets the same result
+          if (mode === 'full-generation' || (mode === 'copilot' && copilotPhase === 'generate')) {
+            const files = extractFiles(result.text);
+            if (files.length > 0) {
+              send({ type: 'files', files });
             }
           }
-          console.log('[OpenAI] Stream completed successfully');
-          controller.close();
+
+          // Assist diffs are applied to the attached files; patched files are offered for download
+          if (mode === 'assist' && attachedFiles.length > 0) {
+            const patches = applyDiffs(attachedFiles, extractDiffs(result.text));
+            const patched = patches.filter(patch => !patch.deleted && patch.hunks.some(hunk => hunk.status === 'applied'));
+            log.info('Diffs applied', {
+              files: patches.length,
+              hunksApplied: patches.reduce((sum, patch) => sum + patch.hunks.length - patch.rejected.length, 0),
+              hunksRejected: patches.reduce((sum, patch) => sum + patch.rejected.length, 0),
+            });
+            if (patches.length > 0) {
+              send({ type: 'patches', patches: patches.map(({ content, ...summary }) => summary) });
+            }
+            if (patched.length > 0) {
+              send({ type: 'files', files: patched.map(({ path, content }) => ({ path, content })) });
+            }
+          }
+
+          send({
+            type: 'done',
+            stopReason: result.stopReason,
+            continuations: result.continuations,
+            truncated: result.truncated,
+          });
         } catch (error) {
-          console.error('[OpenAI] Stream error:', error);
-          controller.error(error);
+          if (abortController.signal.aborted) {
+            log.info('Stream cancelled by client');
+            return;
+          }
+
+          const payload = toErrorPayload(error);
+          log.error('Stream error', { kind: payload.kind, status: payload.status, attempts: payload.attempts, error });
+          send({ type: 'error', ...payload });
+        } finally {
+          if (!abortController.signal.aborted) {
+            controller.close();
+          }
         }
       },
-    });
-
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+      cancel() {
+        abortController.abort();
       },
     });
+
+    return new Response(readable, { headers: SSE_HEADERS });
   } catch (error) {
-    console.error('[OpenAI] Request failed:', error);
-    throw error;
+    log.error('Request failed', { error });
+    return errorResponse(toErrorPayload(error), 500);
   }
 }
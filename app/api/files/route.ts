@@ -1,28 +1,86 @@
 /**
  * File Download API Route
- * Zips generated files and returns download
+ * Zips generated files (alone, or inside a buildable FtcRobotController project), or turns
+ * Assist diffs into a git patch series, and returns download
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import archiver from 'archiver';
 import { Readable } from 'stream';
+import { buildProjectArchive } from '@/lib/export/project';
+import { createLogger } from '@/lib/logger';
+import { buildPatchSeries } from '@/lib/patch-series';
+import { GeneratedDiff, GeneratedFile } from '@/lib/types';
+
+const log = createLogger('Files');
 
 interface RequestBody {
-  files: Array<{
-    path: string;
-    content: string;
-  }>;
+  files?: GeneratedFile[];
+  diffs?: GeneratedDiff[];        // Assist: download as a .patch series instead of a zip
+  originals?: GeneratedFile[];    // files the diffs were written against
+  format?: 'files' | 'project';   // project: files laid into the full SDK skeleton
+}
+
+/**
+ * FtcRobotController project zip that opens and builds in Android Studio
+ */
+async function projectResponse(files: GeneratedFile[]): Promise<Response> {
+  const project = await buildProjectArchive(files);
+  if (!project) {
+    return NextResponse.json(
+      { error: 'The FtcRobotController skeleton could not be downloaded. Check the network connection or add its archive to .rag-cache.' },
+      { status: 503 }
+    );
+  }
+
+  const arrayBuffer = project.zip.buffer.slice(project.zip.byteOffset, project.zip.byteOffset + project.zip.byteLength) as ArrayBuffer;
+  return new NextResponse(arrayBuffer, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="FtcRobotController-${Date.now()}.zip"`,
+    },
+  });
+}
+
+/**
+ * `git format-patch` style mbox for `git am` / `git apply`
+ */
+function patchResponse(diffs: GeneratedDiff[], originals: GeneratedFile[] = []): Response {
+  if (!diffs.every(diff => typeof diff?.diff === 'string' && typeof diff.path === 'string')) {
+    return NextResponse.json({ error: 'Each diff needs a path and diff text' }, { status: 400 });
+  }
+
+  const series = buildPatchSeries(diffs, originals);
+  log.info('Patch series built', { diffs: diffs.length, patches: series.patches, skippedHunks: series.skippedHunks });
+  if (series.patches === 0) {
+    return NextResponse.json({ error: 'None of the diffs change the provided files' }, { status: 400 });
+  }
+
+  return new NextResponse(series.mbox, {
+    headers: {
+      'Content-Type': 'text/x-patch; charset=utf-8',
+      'Content-Disposition': `attachment; filename="ftc-changes-${Date.now()}.patch"`,
+    },
+  });
 }
 
 export async function POST(req: NextRequest) {
   try {
     const body: RequestBody = await req.json();
-    const { files } = body;
+    const { files, diffs, originals, format = 'files' } = body;
+
+    if (diffs && diffs.length > 0) {
+      return patchResponse(diffs, originals);
+    }
 
     if (!files || files.length === 0) {
       return NextResponse.json({ error: 'No files provided' }, { status: 400 });
     }
 
+    if (format === 'project') {
+      return await projectResponse(files);
+    }
+
     // Create zip archive
     const archive = archiver('zip', {
       zlib: { level: 9 }, // Maximum compression
@@ -67,7 +125,7 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (error) {
-    console.error('File download error:', error);
+    log.error('File download failed', { error });
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
@@ -3,12 +3,20 @@
  */
 
 import { addUserRepository, getRAGStatus } from '@/lib/rag/query';
+import { createLogger, registerSecret, withLogContext } from '@/lib/logger';
 
 export const runtime = 'nodejs';
 
+const log = createLogger('API');
+
 export async function POST(req: Request) {
+  return withLogContext({ requestId: crypto.randomUUID().slice(0, 8) }, () => addRepository(req));
+}
+
+async function addRepository(req: Request): Promise<Response> {
   try {
     const { repoURL, openaiApiKey } = await req.json();
+    registerSecret(openaiApiKey);
 
     if (!repoURL) {
       return new Response(
@@ -17,7 +25,7 @@ export async function POST(req: Request) {
       );
     }
 
-    console.log(`[API] Adding user repository: ${repoURL}`);
+    log.info('Adding user repository', { repoURL });
 
     await addUserRepository(repoURL, openaiApiKey);
 
@@ -34,7 +42,7 @@ export async function POST(req: Request) {
       }
     );
   } catch (error) {
-    console.error('[API] Failed to add repository:', error);
+    log.error('Failed to add repository', { error });
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -4,17 +4,25 @@
  */
 
 import { initializeRAG, getRAGStatus } from '@/lib/rag/query';
+import { createLogger, registerSecret, withLogContext } from '@/lib/logger';
 
 export const runtime = 'nodejs'; // Need Node runtime for file system operations
 
+const log = createLogger('API');
+
 export async function POST(req: Request) {
+  return withLogContext({ requestId: crypto.randomUUID().slice(0, 8) }, () => initialize(req));
+}
+
+async function initialize(req: Request): Promise<Response> {
   try {
-    const { openaiApiKey } = await req.json();
+    const { openaiApiKey, embeddingProvider } = await req.json();
+    registerSecret(openaiApiKey);
 
-    console.log('[API] Initializing RAG system...');
+    log.info('Initializing RAG system', { embeddingProvider });
 
     // Reinitialize (forces refresh + optional embeddings)
-    await initializeRAG(openaiApiKey, { force: true });
+    await initializeRAG(openaiApiKey, { force: true, embeddingProvider });
 
     const status = getRAGStatus();
 
@@ -29,7 +37,7 @@ export async function POST(req: Request) {
       }
     );
   } catch (error) {
-    console.error('[API] RAG initialization failed:', error);
+    log.error('RAG initialization failed', { error });
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -1,24 +1,57 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { ModeToggle } from '@/components/ModeToggle';
 import { RobotConfigForm } from '@/components/RobotConfigForm';
 import { OutputSections } from '@/components/OutputSections';
 import { FileDownloadBar } from '@/components/FileDownloadBar';
 import { APIKeyConfig } from '@/components/APIKeyConfig';
 import { RAGConfig } from '@/components/RAGConfig';
+import { RetrievalSettingsForm } from '@/components/RetrievalSettingsForm';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
-import { Mode, RobotConfig, DEFAULT_ROBOT_CONFIG, GeneratedFile, Message } from '@/lib/types';
-import { extractFiles } from '@/lib/modes/full-generation';
+import { AttachedFilesPanel } from '@/components/AttachedFilesPanel';
+import { DiffViewer } from '@/components/DiffViewer';
+import {
+  Mode,
+  RobotConfig,
+  DEFAULT_ROBOT_CONFIG,
+  RetrievalPreferences,
+  DEFAULT_RETRIEVAL_PREFERENCES,
+  GeneratedFile,
+  GeneratedDiff,
+  Message,
+  RetrievedSource,
+  ProviderConfig,
+  MessageUsage,
+  AttachedFile,
+  PatchSummary,
+} from '@/lib/types';
+import { DEFAULT_MAX_TOKENS, validateProviderConfig } from '@/lib/models';
+import { extractDiffs } from '@/lib/modes/assist';
+import { describeUsage, sumUsage } from '@/lib/usage';
+import { readStreamEvents } from '@/lib/stream';
+import { ERROR_MESSAGES, RequestError, formatRequestError, readErrorResponse } from '@/lib/errors';
 import { Trash2 } from 'lucide-react';
 
 export default function WorkbenchPage() {
   const [mode, setMode] = useState<Mode>('full-generation');
+  const [maxTokensByMode, setMaxTokensByMode] = useState<Record<Mode, number>>(DEFAULT_MAX_TOKENS);
   const [robotConfig, setRobotConfig] = useState<RobotConfig>(DEFAULT_ROBOT_CONFIG);
+  const [retrievalPreferences, setRetrievalPreferences] = useState<RetrievalPreferences>(DEFAULT_RETRIEVAL_PREFERENCES);
   const [userPrompt, setUserPrompt] = useState('');
   const [response, setResponse] = useState('');
+  const [responseSources, setResponseSources] = useState<RetrievedSource[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [generatedFiles, setGeneratedFiles] = useState<GeneratedFile[]>([]);
+  const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([]);
+  const [reviewDiffs, setReviewDiffs] = useState<GeneratedDiff[]>([]);
+  const [reviewOriginals, setReviewOriginals] = useState<GeneratedFile[]>([]); // files the diffs were written against
+  const [acceptedDiffs, setAcceptedDiffs] = useState<GeneratedDiff[]>([]);
+
+  const handleReviewChange = useCallback((files: GeneratedFile[], accepted: GeneratedDiff[]) => {
+    setGeneratedFiles(files);
+    setAcceptedDiffs(accepted);
+  }, []);
 type ChatSession = {
   id: string;
   title: string;
@@ -34,11 +67,7 @@ const createSession = (title: string): ChatSession => ({
 });
   const [copilotPhase, setCopilotPhase] = useState<'plan' | 'generate'>('plan');
   const [approvedPlan, setApprovedPlan] = useState('');
-  const [apiConfig, setApiConfig] = useState<{
-    provider: 'anthropic' | 'openai';
-    apiKey: string;
-    model?: string;
-  } | null>(null);
+  const [apiConfig, setApiConfig] = useState<ProviderConfig | null>(null);
   const [showSettings, setShowSettings] = useState(false);
 const [statusMessage, setStatusMessage] = useState('Idle');
 const [sessions, setSessions] = useState<ChatSession[]>([createSession('Session 1')]);
@@ -66,6 +95,7 @@ const handleNewSession = () => {
   setUserPrompt('');
   setResponse('');
   setGeneratedFiles([]);
+  setReviewDiffs([]);
   setCopilotPhase('plan');
   setApprovedPlan('');
 };
@@ -74,6 +104,7 @@ const handleSelectSession = (sessionId: string) => {
   setActiveSessionId(sessionId);
   setUserPrompt('');
   setGeneratedFiles([]);
+  setReviewDiffs([]);
   setCopilotPhase('plan');
   setApprovedPlan('');
   setResponse('');
@@ -111,6 +142,7 @@ const handleDeleteSession = (sessionId: string) => {
       setUserPrompt('');
       setResponse('');
       setGeneratedFiles([]);
+      setReviewDiffs([]);
       setCopilotPhase('plan');
       setApprovedPlan('');
     }
@@ -214,7 +246,7 @@ useEffect(() => {
 
     if (!userPrompt.trim() || isStreaming) return;
 
-    if (!apiConfig || !apiConfig.apiKey) {
+    if (!apiConfig || validateProviderConfig(apiConfig)) {
       alert('Please configure your API key first');
       return;
     }
@@ -227,9 +259,10 @@ useEffect(() => {
       setEditingMessageIndex(null);
     }
 
-    const requestHistory = editingMessageIndex !== null
+    const requestHistory = (editingMessageIndex !== null
       ? [...conversationHistory.slice(0, editingMessageIndex), { role: 'user', content: userPrompt }]
-      : [...conversationHistory, { role: 'user', content: userPrompt }];
+      : [...conversationHistory, { role: 'user', content: userPrompt }]
+    ).map(({ role, content }) => ({ role, content }));
 
     if (conversationHistory.length === 0 && userPrompt.trim()) {
       setSessions((prev) =>
@@ -243,8 +276,10 @@ useEffect(() => {
 
     setIsStreaming(true);
     setResponse('');
+    setResponseSources([]);
     setGeneratedFiles([]);
-    setStatusMessage('Retrieving FTC sources...');
+    setReviewDiffs([]);
+    setStatusMessage('Sending request...');
 
     // Clear input after starting submission
     const currentPrompt = userPrompt;
@@ -256,6 +291,9 @@ useEffect(() => {
     updateActiveSessionHistory((history) => [...history, { role: 'user', content: currentPrompt }]);
 
     try {
+      const sentFiles = mode === 'assist'
+        ? attachedFiles.filter(file => file.selected).map(({ path, content }) => ({ path, content }))
+        : [];
       const requestBody = {
         mode,
         robotConfig,
@@ -266,6 +304,11 @@ useEffect(() => {
         apiKey: apiConfig.apiKey,
         provider: apiConfig.provider,
         model: apiConfig.model,
+        baseURL: apiConfig.baseURL,
+        contextWindow: apiConfig.contextWindow,
+        maxTokens: maxTokensByMode[mode],
+        retrieval: retrievalPreferences,
+        existingFiles: mode === 'assist' ? sentFiles : undefined,
       };
 
       const res = await fetch('/api/claude', {
@@ -275,35 +318,91 @@ useEffect(() => {
         signal: abortControllerRef.current.signal,
       });
 
-      if (!res.ok) {
-        throw new Error(`API error: ${res.status}`);
+      if (!res.ok || !res.body) {
+        throw new RequestError(await readErrorResponse(res));
       }
 
-      // Stream response
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
+      // Stream response events
       let accumulated = '';
-
-      setStatusMessage('Generating answer...');
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          accumulated += chunk;
-          setResponse(accumulated);
+      let sources: RetrievedSource[] = [];
+      let usage: MessageUsage | undefined;
+      let continuations = 0;
+      let truncated = false;
+      let patches: PatchSummary[] | undefined;
+      let completed = false;
+
+      for await (const event of readStreamEvents(res.body)) {
+        switch (event.type) {
+          case 'retrieval':
+            setStatusMessage(
+              event.status === 'started'
+                ? 'Retrieving FTC sources...'
+                : `Retrieved ${event.documentCount ?? 0} sources in ${event.durationMs ?? 0} ms`
+            );
+            break;
+          case 'sources':
+            sources = event.sources;
+            setResponseSources(sources);
+            setStatusMessage('Generating answer...');
+            break;
+          case 'delta':
+            accumulated += event.content;
+            setResponse(accumulated);
+            break;
+          case 'usage':
+            usage = {
+              inputTokens: event.inputTokens,
+              outputTokens: event.outputTokens,
+              model: event.model,
+              costUSD: event.costUSD,
+            };
+            break;
+          case 'files':
+            setGeneratedFiles(event.files);
+            break;
+          case 'patches':
+            patches = event.patches;
+            break;
+          case 'retry':
+            setStatusMessage(
+              `${ERROR_MESSAGES[event.kind].title} — retrying in ${Math.ceil(event.delayMs / 1000)}s (attempt ${event.attempt + 1})...`
+            );
+            break;
+          case 'continuation':
+            setStatusMessage(`Output limit reached — continuing (${event.count}/${event.max})...`);
+            break;
+          case 'error':
+            throw new RequestError(event);
+          case 'done':
+            continuations = event.continuations ?? 0;
+            truncated = event.truncated ?? false;
+            completed = true;
+            break;
         }
       }
 
-      // Update conversation history
-      updateActiveSessionHistory((history) => [...history, { role: 'assistant', content: accumulated }]);
+      if (!completed) {
+        throw new Error('Stream ended before the response was complete');
+      }
 
-      // Extract files if in full-generation mode or copilot generate phase
-      if (mode === 'full-generation' || (mode === 'copilot' && copilotPhase === 'generate')) {
-        const files = extractFiles(accumulated);
-        setGeneratedFiles(files);
+      // Update conversation history
+      updateActiveSessionHistory((history) => [
+        ...history,
+        {
+          role: 'assistant',
+          content: accumulated,
+          sources,
+          usage,
+          continuations: continuations || undefined,
+          truncated: truncated || undefined,
+          patches,
+        },
+      ]);
+
+      // Assist diffs go to the review UI, which applies the accepted hunks to the sent files
+      if (mode === 'assist') {
+        setReviewOriginals(sentFiles);
+        setReviewDiffs(extractDiffs(accumulated));
       }
 
       // For copilot mode, check if we got a plan
@@ -312,7 +411,14 @@ useEffect(() => {
         // Don't auto-advance - wait for user to click "Generate Code"
       }
 
-      setStatusMessage('Ready');
+      const rejectedHunks = patches?.reduce((sum, patch) => sum + patch.rejected.length, 0) ?? 0;
+      setStatusMessage(
+        truncated
+          ? 'Ready — response was cut off at the output limit; raise Max tokens to get the rest'
+          : rejectedHunks > 0
+            ? `Ready — ${rejectedHunks} hunk${rejectedHunks !== 1 ? 's' : ''} could not be applied; see Patch Results`
+            : 'Ready'
+      );
     } catch (error: any) {
       if (error.name === 'AbortError') {
         setResponse(response + '\n\n[Cancelled by user]');
@@ -320,24 +426,16 @@ useEffect(() => {
       } else {
         console.error('Stream error:', error);
 
-        let errorMessage = 'An error occurred';
+        // fetch() itself rejects with a TypeError when the workbench server can't be reached
+        const payload =
+          error instanceof RequestError
+            ? error.payload
+            : error instanceof TypeError
+              ? { kind: 'network' as const, error: `Cannot reach the workbench server: ${error.message}` }
+              : { kind: 'unknown' as const, error: error.message || 'An error occurred' };
 
-        if (error.message) {
-          errorMessage = error.message;
-        }
-
-        if (error.message?.includes('API error: 500')) {
-          errorMessage = '❌ Server Error: Check the browser console for details.\n\nPossible issues:\n• Invalid API key format\n• Network connection problem\n• API endpoint error\n\nOpen DevTools (F12) → Console tab to see full error.';
-        } else if (error.message?.includes('401')) {
-          errorMessage = '❌ Authentication Error: Your API key is invalid or expired.\n\nPlease:\n1. Click the settings gear icon ⚙️\n2. Clear your current API key\n3. Get a new key from console.anthropic.com or platform.openai.com\n4. Save the new key';
-        } else if (error.message?.includes('429')) {
-          errorMessage = '❌ Rate Limit: Too many requests.\n\nPlease wait a moment and try again.';
-        } else if (error.message?.includes('Failed to fetch')) {
-          errorMessage = '❌ Network Error: Cannot connect to API.\n\nCheck your internet connection.';
-        }
-
-        setResponse(errorMessage);
-        setStatusMessage('Error — see console');
+        setResponse(formatRequestError(payload));
+        setStatusMessage(`Error — ${ERROR_MESSAGES[payload.kind].title}`);
       }
     } finally {
       setIsStreaming(false);
@@ -365,7 +463,7 @@ useEffect(() => {
   const getDisplayHistory = () => {
     const history: Message[] = [...conversationHistory];
     if (isStreaming && response) {
-      history.push({ role: 'assistant', content: response });
+      history.push({ role: 'assistant', content: response, sources: responseSources });
     }
     return history;
   };
@@ -374,6 +472,7 @@ useEffect(() => {
     setUserPrompt('');
     setResponse('');
     setGeneratedFiles([]);
+    setReviewDiffs([]);
     updateActiveSessionHistory(() => []);
     setApprovedPlan('');
     setCopilotPhase('plan');
@@ -411,6 +510,9 @@ useEffect(() => {
                       {session.title || 'Untitled Session'}
                     </div>
                     <div className="text-xs text-textDim">{session.history.length} messages</div>
+                    {session.history.some(message => message.usage) && (
+                      <div className="text-xs text-textDim truncate">{describeUsage(sumUsage(session.history))}</div>
+                    )}
                   </div>
                   {sessions.length > 1 && (
                     <button
@@ -493,9 +595,22 @@ useEffect(() => {
                   messages={getDisplayHistory()}
                   onEditMessage={handleEditMessage}
                 />
-                {generatedFiles.length > 0 && (
+                {reviewDiffs.length > 0 && (
+                  <DiffViewer
+                    diffs={reviewDiffs}
+                    originals={reviewOriginals}
+                    onChange={handleReviewChange}
+                    disabled={isStreaming}
+                  />
+                )}
+                {(generatedFiles.length > 0 || (reviewDiffs.length > 0 && acceptedDiffs.length > 0)) && (
                   <div className="glass glass-border rounded-2xl">
-                    <FileDownloadBar files={generatedFiles} enabled={!isStreaming} />
+                    <FileDownloadBar
+                      files={generatedFiles}
+                      enabled={!isStreaming}
+                      diffs={reviewDiffs.length > 0 ? acceptedDiffs : undefined}
+                      originals={reviewOriginals}
+                    />
                   </div>
                 )}
               </div>
@@ -508,6 +623,9 @@ useEffect(() => {
             <form id="prompt-form" onSubmit={handleSubmit} className="space-y-2">
               <div className="flex items-center justify-between text-xs text-textMuted px-1">
                 <span>{statusMessage}</span>
+                {conversationHistory.some(message => message.usage) && (
+                  <span title="Session total">Session: {describeUsage(sumUsage(conversationHistory))}</span>
+                )}
                 {mode === 'copilot' && copilotPhase === 'plan' && approvedPlan && (
                   <button
                     type="button"
@@ -518,6 +636,9 @@ useEffect(() => {
                   </button>
                 )}
               </div>
+              {mode === 'assist' && (
+                <AttachedFilesPanel files={attachedFiles} onChange={setAttachedFiles} disabled={isStreaming} />
+              )}
               <div className="glass glass-border rounded-3xl shadow-glass p-2 transition-all">
                 <div className="flex items-end gap-3">
                   <textarea
@@ -587,8 +708,14 @@ useEffect(() => {
 
                 <APIKeyConfig onConfigChange={setApiConfig} />
                 <RAGConfig onAddRepo={handleRAGAddRepo} apiConfig={apiConfig} />
-                <ModeToggle mode={mode} onChange={setMode} />
+                <ModeToggle
+                  mode={mode}
+                  onChange={setMode}
+                  maxTokens={maxTokensByMode[mode]}
+                  onMaxTokensChange={(maxTokens) => setMaxTokensByMode((prev) => ({ ...prev, [mode]: maxTokens }))}
+                />
                 <RobotConfigForm config={robotConfig} onChange={setRobotConfig} />
+                <RetrievalSettingsForm preferences={retrievalPreferences} onChange={setRetrievalPreferences} />
 
                 {(conversationHistory.length > 0 || response) && (
                   <button
@@ -1,16 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { AIProvider } from '@/lib/types';
+import { AIProvider, ProviderConfig } from '@/lib/types';
+import { DEFAULT_MODELS, PROVIDER_INFO, validateProviderConfig } from '@/lib/models';
 
 interface APIKeyConfigProps {
-  onConfigChange: (config: { provider: AIProvider; apiKey: string; model?: string }) => void;
+  onConfigChange: (config: ProviderConfig) => void;
 }
 
+const PROVIDERS = Object.keys(PROVIDER_INFO) as AIProvider[];
+
 export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
   const [provider, setProvider] = useState<AIProvider>('anthropic');
   const [apiKey, setApiKey] = useState('');
   const [model, setModel] = useState('');
+  const [baseURL, setBaseURL] = useState('');
+  const [contextWindow, setContextWindow] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [isConfigured, setIsConfigured] = useState(false);
 
@@ -23,9 +28,12 @@ export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
         setProvider(config.provider || 'anthropic');
         setApiKey(config.apiKey || '');
         setModel(config.model || '');
-        setIsConfigured(!!config.apiKey);
+        setBaseURL(config.baseURL || '');
+        setContextWindow(config.contextWindow ? String(config.contextWindow) : '');
 
-        if (config.apiKey) {
+        const configured = !validateProviderConfig(config);
+        setIsConfigured(configured);
+        if (configured) {
           onConfigChange(config);
         }
       } catch (e) {
@@ -35,17 +43,21 @@ export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
   }, []);
 
   const handleSave = () => {
-    if (!apiKey.trim()) {
-      alert('Please enter an API key');
-      return;
-    }
-
-    const config = {
+    const info = PROVIDER_INFO[provider];
+    const config: ProviderConfig = {
       provider,
-      apiKey: apiKey.trim(),
-      model: model.trim() || getDefaultModel(provider),
+      apiKey: info.apiKey === 'none' ? '' : apiKey.trim(),
+      model: model.trim() || DEFAULT_MODELS[provider],
+      baseURL: info.requiresBaseURL ? baseURL.trim().replace(/\/+$/, '') : undefined,
+      contextWindow: info.requiresBaseURL ? parseInt(contextWindow, 10) || undefined : undefined,
     };
 
+    const error = validateProviderConfig(config);
+    if (error) {
+      alert(error);
+      return;
+    }
+
     localStorage.setItem('ftc-ai-config', JSON.stringify(config));
     setIsConfigured(true);
     onConfigChange(config);
@@ -55,12 +67,12 @@ export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
     localStorage.removeItem('ftc-ai-config');
     setApiKey('');
     setModel('');
+    setBaseURL('');
+    setContextWindow('');
     setIsConfigured(false);
   };
 
-  const getDefaultModel = (p: AIProvider): string => {
-    return p === 'anthropic' ? 'claude-sonnet-4-5-20250929' : 'gpt-4o-mini';
-  };
+  const info = PROVIDER_INFO[provider];
 
   return (
     <div className="glass glass-border rounded-2xl p-5">
@@ -90,46 +102,76 @@ export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
             onChange={(e) => setProvider(e.target.value as AIProvider)}
             className="w-full mt-1 px-3 py-2 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50"
           >
-            <option value="anthropic">Anthropic (Claude)</option>
-            <option value="openai">OpenAI (GPT)</option>
+            {PROVIDERS.map(id => (
+              <option key={id} value={id}>{PROVIDER_INFO[id].label}</option>
+            ))}
           </select>
         </div>
 
-        <div>
-          <label className="text-xs text-textMuted">
-            API Key {provider === 'anthropic' ? '(sk-ant-...)' : '(sk-...)'}
-          </label>
-          <div className="relative mt-1">
+        {info.requiresBaseURL && (
+          <div>
+            <label className="text-xs text-textMuted">Base URL</label>
             <input
-              type={showKey ? 'text' : 'password'}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Paste your API key here"
-              className="w-full px-3 py-2 pr-16 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50 font-mono"
+              type="text"
+              value={baseURL}
+              onChange={(e) => setBaseURL(e.target.value)}
+              placeholder="http://localhost:11434/v1"
+              className="w-full mt-1 px-3 py-2 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50 font-mono"
             />
-            <button
-              type="button"
-              onClick={() => setShowKey(!showKey)}
-              className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-textMuted hover:text-text px-2 py-1 rounded hover:bg-white/10"
-            >
-              {showKey ? 'Hide' : 'Show'}
-            </button>
           </div>
-        </div>
+        )}
+
+        {info.apiKey !== 'none' && (
+          <div>
+            <label className="text-xs text-textMuted">
+              API Key {info.apiKey === 'optional' ? '(optional)' : info.keyHint ? `(${info.keyHint})` : ''}
+            </label>
+            <div className="relative mt-1">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Paste your API key here"
+                className="w-full px-3 py-2 pr-16 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50 font-mono"
+              />
+              <button
+                type="button"
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-textMuted hover:text-text px-2 py-1 rounded hover:bg-white/10"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+          </div>
+        )}
 
         <div>
           <label className="text-xs text-textMuted">
-            Model (optional)
+            Model {info.requiresModel ? '' : '(optional)'}
           </label>
           <input
             type="text"
             value={model}
             onChange={(e) => setModel(e.target.value)}
-            placeholder={getDefaultModel(provider)}
+            placeholder={DEFAULT_MODELS[provider] ?? 'e.g. qwen2.5-coder:14b'}
             className="w-full mt-1 px-3 py-2 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50"
           />
         </div>
 
+        {info.requiresBaseURL && (
+          <div>
+            <label className="text-xs text-textMuted">Context Window (tokens, optional)</label>
+            <input
+              type="number"
+              min="1024"
+              value={contextWindow}
+              onChange={(e) => setContextWindow(e.target.value)}
+              placeholder="128000"
+              className="w-full mt-1 px-3 py-2 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50"
+            />
+          </div>
+        )}
+
         <div className="flex gap-2 pt-2">
           <button
             onClick={handleSave}
@@ -148,7 +190,7 @@ export function APIKeyConfig({ onConfigChange }: APIKeyConfigProps) {
         </div>
 
         <p className="text-xs text-textDim">
-          Your API key is stored locally and sent only to {provider === 'anthropic' ? 'Anthropic' : 'OpenAI'}.
+          {info.dataNote}
         </p>
       </div>
     </div>
@@ -0,0 +1,201 @@
+'use client';
+
+import { AttachedFile } from '@/lib/types';
+import { ASSIST_FILE_EXTENSIONS, ASSIST_FILE_LIMITS, attachmentPath, isAssistSourceFile } from '@/lib/modes/assist';
+import { FolderOpen, Paperclip, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+interface AttachedFilesPanelProps {
+  files: AttachedFile[];
+  onChange: (files: AttachedFile[]) => void;
+  disabled?: boolean;
+}
+
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+}
+
+/**
+ * Whether `candidate` can be selected alongside the files already selected
+ */
+function fitsLimits(files: AttachedFile[], candidate: AttachedFile): boolean {
+  const others = files.filter(file => file.selected && file.path !== candidate.path);
+  const total = others.reduce((sum, file) => sum + file.size, 0);
+  return (
+    candidate.size <= ASSIST_FILE_LIMITS.maxFileBytes &&
+    others.length < ASSIST_FILE_LIMITS.maxFiles &&
+    total + candidate.size <= ASSIST_FILE_LIMITS.maxTotalBytes
+  );
+}
+
+export function AttachedFilesPanel({ files, onChange, disabled }: AttachedFilesPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState('');
+
+  // React has no typed prop for directory pickers
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const selected = files.filter(file => file.selected);
+  const selectedBytes = selected.reduce((sum, file) => sum + file.size, 0);
+
+  const handleAdd = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+
+    // Build output is skipped so picking the whole project folder works
+    const incoming = Array.from(list).filter(file => {
+      const path = file.webkitRelativePath || file.name;
+      return isAssistSourceFile(path) && !/(^|\/)(build|\.gradle|\.idea)\//.test(path);
+    });
+    const skipped = list.length - incoming.length;
+
+    try {
+      const read = await Promise.all(
+        incoming.map(async (file): Promise<AttachedFile> => ({
+          path: attachmentPath(file.webkitRelativePath || file.name),
+          content: await file.text(),
+          size: file.size,
+          selected: false,
+        }))
+      );
+
+      // Re-adding a path replaces it; new files are selected while they fit the limits
+      let next = files.filter(file => !read.some(added => added.path === file.path));
+      for (const file of read) {
+        next = [...next, { ...file, selected: fitsLimits(next, file) }];
+      }
+      onChange(next.sort((a, b) => a.path.localeCompare(b.path)));
+
+      const unselected = read.filter(file => !next.find(n => n.path === file.path)?.selected).length;
+      setNotice(
+        [
+          skipped > 0 && `${skipped} file${skipped !== 1 ? 's' : ''} skipped (only ${ASSIST_FILE_EXTENSIONS.join('/')})`,
+          unselected > 0 && `${unselected} not selected (over the limits)`,
+        ].filter(Boolean).join(' · ')
+      );
+    } catch (error) {
+      console.error('[Attach] Failed to read files:', error);
+      setNotice('Could not read the selected files');
+    }
+  };
+
+  const handleToggle = (path: string) => {
+    onChange(
+      files.map(file => {
+        if (file.path !== path) return file;
+        if (file.selected) return { ...file, selected: false };
+        return fitsLimits(files, file) ? { ...file, selected: true } : file;
+      })
+    );
+  };
+
+  const handleRemove = (path: string) => {
+    onChange(files.filter(file => file.path !== path));
+  };
+
+  return (
+    <div className="glass glass-border rounded-2xl px-4 py-2 space-y-2">
+      <div className="flex items-center justify-between gap-3 text-xs">
+        <span className="text-textMuted">
+          {files.length > 0
+            ? `${selected.length}/${files.length} files · ${formatKB(selectedBytes)} of ${formatKB(ASSIST_FILE_LIMITS.maxTotalBytes)}`
+            : 'Attach the files Assist should modify'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/10 text-textMuted hover:text-text transition-colors disabled:opacity-50"
+            title={`Attach ${ASSIST_FILE_EXTENSIONS.join(' / ')} files`}
+          >
+            <Paperclip className="w-3.5 h-3.5" />
+            Files
+          </button>
+          <button
+            type="button"
+            onClick={() => folderInputRef.current?.click()}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-white/10 text-textMuted hover:text-text transition-colors disabled:opacity-50"
+            title="Attach every source file in a folder (e.g. TeamCode)"
+          >
+            <FolderOpen className="w-3.5 h-3.5" />
+            Folder
+          </button>
+          {files.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                onChange([]);
+                setNotice('');
+              }}
+              disabled={disabled}
+              className="px-2 py-1 rounded-lg hover:bg-white/10 text-textDim hover:text-text transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ASSIST_FILE_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={async (e) => {
+            await handleAdd(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={async (e) => {
+            await handleAdd(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {notice && <p className="text-xs text-yellow-400/80">{notice}</p>}
+
+      {files.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1">
+          {files.map(file => {
+            const tooLarge = file.size > ASSIST_FILE_LIMITS.maxFileBytes;
+            return (
+              <li key={file.path} className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={file.selected}
+                  disabled={disabled || tooLarge}
+                  onChange={() => handleToggle(file.path)}
+                  className="accent-accent"
+                />
+                <span className={`flex-1 truncate font-mono ${file.selected ? 'text-text' : 'text-textDim'}`} title={file.path}>
+                  {file.path}
+                </span>
+                <span className={tooLarge ? 'text-red-400' : 'text-textDim'} title={tooLarge ? `Over the ${formatKB(ASSIST_FILE_LIMITS.maxFileBytes)} per-file limit` : undefined}>
+                  {formatKB(file.size)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(file.path)}
+                  disabled={disabled}
+                  className="p-0.5 rounded hover:bg-white/10 text-textDim hover:text-red-400 transition-colors"
+                  title="Remove"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
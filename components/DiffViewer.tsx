@@ -0,0 +1,248 @@
+'use client';
+
+import { GeneratedDiff, GeneratedFile } from '@/lib/types';
+import { DiffHunk, parseUnifiedDiff } from '@/lib/patch';
+import { applyDiffs, selectHunks } from '@/lib/modes/assist';
+import { CodeLanguage, languageForPath, tokenizeLine, TokenKind } from '@/lib/highlight';
+import { Check, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface DiffViewerProps {
+  diffs: GeneratedDiff[];
+  originals: GeneratedFile[];   // attached files the diffs are applied to
+  onChange: (files: GeneratedFile[], acceptedDiffs: GeneratedDiff[]) => void;
+  disabled?: boolean;
+}
+
+interface Cell {
+  number?: number;
+  text: string;
+  kind: 'context' | 'removed' | 'added';
+}
+
+interface Row {
+  left?: Cell;
+  right?: Cell;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: 'text-purple-400',
+  type: 'text-sky-300',
+  string: 'text-amber-300',
+  comment: 'text-textDim italic',
+  number: 'text-orange-300',
+  annotation: 'text-yellow-400',
+  plain: '',
+};
+
+const CELL_CLASSES: Record<Cell['kind'], string> = {
+  context: '',
+  removed: 'bg-red-500/15',
+  added: 'bg-green-500/15',
+};
+
+const hunkKey = (block: number, file: number, hunk: number) => `${block}:${file}:${hunk}`;
+
+/**
+ * Pair a hunk's lines into side-by-side rows: context on both sides, each run of
+ * removals lined up against the additions that follow it
+ */
+function sideBySideRows(hunk: DiffHunk): Row[] {
+  const rows: Row[] = [];
+  let oldLine = hunk.oldStart || undefined;
+  let newLine = hunk.newStart || undefined;
+  const next = (line: number | undefined) => (line === undefined ? undefined : line + 1);
+
+  for (let i = 0; i < hunk.lines.length; ) {
+    const line = hunk.lines[i];
+    if (line[0] === ' ') {
+      rows.push({
+        left: { number: oldLine, text: line.slice(1), kind: 'context' },
+        right: { number: newLine, text: line.slice(1), kind: 'context' },
+      });
+      oldLine = next(oldLine);
+      newLine = next(newLine);
+      i++;
+      continue;
+    }
+
+    const removed: Cell[] = [];
+    const added: Cell[] = [];
+    for (; hunk.lines[i]?.[0] === '-'; i++) {
+      removed.push({ number: oldLine, text: hunk.lines[i].slice(1), kind: 'removed' });
+      oldLine = next(oldLine);
+    }
+    for (; hunk.lines[i]?.[0] === '+'; i++) {
+      added.push({ number: newLine, text: hunk.lines[i].slice(1), kind: 'added' });
+      newLine = next(newLine);
+    }
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j], right: added[j] });
+    }
+  }
+  return rows;
+}
+
+function CodeCell({ cell, language }: { cell?: Cell; language: CodeLanguage }) {
+  if (!cell) return <td colSpan={2} className="bg-black/20" />;
+  const marker = cell.kind === 'removed' ? '-' : cell.kind === 'added' ? '+' : ' ';
+  return (
+    <>
+      <td className={`w-10 pr-2 text-right text-textDim select-none align-top ${CELL_CLASSES[cell.kind]}`}>
+        {cell.number ?? ''}
+      </td>
+      <td className={`pr-3 whitespace-pre align-top ${CELL_CLASSES[cell.kind]}`}>
+        <span className="text-textDim select-none">{marker}</span>
+        {tokenizeLine(cell.text, language).map((token, index) => (
+          <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+        ))}
+      </td>
+    </>
+  );
+}
+
+export function DiffViewer({ diffs, originals, onChange, disabled }: DiffViewerProps) {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const blocks = useMemo(() => diffs.map(diff => parseUnifiedDiff(diff.diff, diff.path)), [diffs]);
+  const allKeys = useMemo(
+    () => blocks.flatMap((files, b) => files.flatMap((file, f) => file.hunks.map((_, h) => hunkKey(b, f, h)))),
+    [blocks]
+  );
+
+  // Whether each hunk applies on its own to the original file
+  const applicable = useMemo(() => {
+    const result = new Map<string, string | null>();
+    for (const key of allKeys) {
+      const [patch] = applyDiffs(originals, selectHunks(diffs, (b, f, h) => hunkKey(b, f, h) === key));
+      result.set(key, patch?.rejected[0]?.reason ?? null);
+    }
+    return result;
+  }, [allKeys, diffs, originals]);
+
+  useEffect(() => {
+    setRejected(new Set());
+  }, [diffs]);
+
+  // Accepted hunks applied to the originals, in order, become the downloadable files
+  useEffect(() => {
+    const accepted = selectHunks(diffs, (b, f, h) => !rejected.has(hunkKey(b, f, h)));
+    const patches = applyDiffs(originals, accepted);
+    onChange(
+      patches
+        .filter(patch => !patch.deleted && patch.hunks.some(hunk => hunk.status === 'applied'))
+        .map(({ path, content }) => ({ path, content })),
+      accepted
+    );
+  }, [diffs, originals, rejected, onChange]);
+
+  const setHunks = (keys: string[], accept: boolean) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      keys.forEach(key => (accept ? next.delete(key) : next.add(key)));
+      return next;
+    });
+  };
+
+  if (allKeys.length === 0) return null;
+
+  const accepted = allKeys.length - rejected.size;
+
+  return (
+    <div className="glass glass-border rounded-2xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-text">Review Changes</p>
+          <p className="text-xs text-textDim">
+            {accepted}/{allKeys.length} hunks accepted
+            {originals.length === 0 && ' · attach the original files to apply them'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => setHunks(allKeys, true)}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg glass glass-border text-textMuted hover:glass-hover hover:text-text transition-all"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => setHunks(allKeys, false)}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg glass glass-border text-textMuted hover:glass-hover hover:text-text transition-all"
+          >
+            Reject all
+          </button>
+        </div>
+      </div>
+
+      {blocks.map((files, b) => (
+        <div key={b} className="space-y-3">
+          {diffs[b].commentary && <p className="text-sm text-textMuted">{diffs[b].commentary}</p>}
+
+          {files.map((file, f) => {
+            const path = file.newPath ?? file.oldPath ?? diffs[b].path;
+            const language = languageForPath(path);
+            return (
+              <div key={f} className="border border-border rounded-xl overflow-hidden">
+                <div className="px-3 py-2 bg-black/30 text-xs font-mono text-text flex items-center gap-2">
+                  <span className="break-all">{path}</span>
+                  {file.oldPath === null && <span className="text-green-400">new file</span>}
+                  {file.newPath === null && <span className="text-red-400">deleted</span>}
+                </div>
+
+                {file.hunks.map((hunk, h) => {
+                  const key = hunkKey(b, f, h);
+                  const isAccepted = !rejected.has(key);
+                  const problem = applicable.get(key);
+                  return (
+                    <div key={h} className={`border-t border-border ${isAccepted ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-black/20 text-xs">
+                        <span className="font-mono text-textDim truncate">{hunk.header}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {problem && <span className="text-yellow-400/80" title={problem}>won&apos;t apply: {problem}</span>}
+                          <button
+                            onClick={() => setHunks([key], true)}
+                            disabled={disabled}
+                            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md transition-colors ${
+                              isAccepted ? 'bg-green-500/20 text-green-300' : 'text-textDim hover:text-text'
+                            }`}
+                          >
+                            <Check className="w-3 h-3" />
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => setHunks([key], false)}
+                            disabled={disabled}
+                            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md transition-colors ${
+                              !isAccepted ? 'bg-red-500/20 text-red-300' : 'text-textDim hover:text-text'
+                            }`}
+                          >
+                            <X className="w-3 h-3" />
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-xs font-mono border-collapse">
+                          <tbody>
+                            {sideBySideRows(hunk).map((row, r) => (
+                              <tr key={r}>
+                                <CodeCell cell={row.left} language={language} />
+                                <CodeCell cell={row.right} language={language} />
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
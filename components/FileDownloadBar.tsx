@@ -1,49 +1,74 @@
 'use client';
 
-import { GeneratedFile } from '@/lib/types';
+import { GeneratedDiff, GeneratedFile } from '@/lib/types';
 import { useState } from 'react';
 
 interface FileDownloadBarProps {
   files: GeneratedFile[];
   enabled: boolean;
+  diffs?: GeneratedDiff[];        // Assist: accepted diffs, offered as a git patch series
+  originals?: GeneratedFile[];    // files the diffs apply to
 }
 
-export function FileDownloadBar({ files, enabled }: FileDownloadBarProps) {
-  const [downloading, setDownloading] = useState(false);
+export function FileDownloadBar({ files, enabled, diffs = [], originals = [] }: FileDownloadBarProps) {
+  const [downloading, setDownloading] = useState<'zip' | 'project' | 'patch' | null>(null);
 
-  const handleDownload = async () => {
-    if (!enabled || files.length === 0) return;
-
-    setDownloading(true);
+  const download = async (kind: 'zip' | 'project' | 'patch', body: object, fallbackName: string) => {
+    setDownloading(kind);
 
     try {
       const response = await fetch('/api/files', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ files }),
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
-        throw new Error('Download failed');
+        const { error } = await response.json().catch(() => ({ error: 'Download failed' }));
+        throw new Error(error);
       }
 
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `ftc-code-${Date.now()}.zip`;
+      a.download = filename;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
     } catch (error) {
       console.error('Download error:', error);
-      alert('Failed to download files. Check console for details.');
+      const what = kind === 'patch' ? 'the patch' : kind === 'project' ? 'the project' : 'files';
+      alert(`Failed to download ${what}: ${error instanceof Error ? error.message : error}`);
     } finally {
-      setDownloading(false);
+      setDownloading(null);
     }
   };
 
+  const handleDownload = () => {
+    if (!enabled || files.length === 0) return;
+    download('zip', { files }, `ftc-code-${Date.now()}.zip`);
+  };
+
+  const handleDownloadProject = () => {
+    if (!enabled || files.length === 0) return;
+    download('project', { files, format: 'project' }, `FtcRobotController-${Date.now()}.zip`);
+  };
+
+  const handleDownloadPatch = () => {
+    if (!enabled || diffs.length === 0) return;
+    download('patch', { diffs, originals }, `ftc-changes-${Date.now()}.patch`);
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-4 py-2 rounded-lg font-medium transition-all ${
+      active
+        ? 'bg-accent text-background hover:bg-accentHover'
+        : 'bg-surface border border-border text-textMuted cursor-not-allowed'
+    }`;
+
   return (
     <div className="flex items-center justify-between bg-surface border-t border-border px-6 py-3">
       <div className="text-sm text-textMuted">
@@ -51,22 +76,42 @@ export function FileDownloadBar({ files, enabled }: FileDownloadBarProps) {
           <span>
             {files.length} file{files.length !== 1 ? 's' : ''} ready
           </span>
+        ) : diffs.length > 0 ? (
+          <span>
+            {diffs.length} change{diffs.length !== 1 ? 's' : ''} ready as a patch
+          </span>
         ) : (
           <span>No files generated yet</span>
         )}
       </div>
 
-      <button
-        onClick={handleDownload}
-        disabled={!enabled || files.length === 0 || downloading}
-        className={`px-4 py-2 rounded-lg font-medium transition-all ${
-          enabled && files.length > 0 && !downloading
-            ? 'bg-accent text-background hover:bg-accentHover'
-            : 'bg-surface border border-border text-textMuted cursor-not-allowed'
-        }`}
-      >
-        {downloading ? 'Downloading...' : 'Download All'}
-      </button>
+      <div className="flex items-center gap-2">
+        {diffs.length > 0 && (
+          <button
+            onClick={handleDownloadPatch}
+            disabled={!enabled || downloading !== null}
+            className={buttonClass(enabled && downloading === null)}
+            title="git format-patch series: apply with git am or git apply"
+          >
+            {downloading === 'patch' ? 'Downloading...' : 'Download .patch'}
+          </button>
+        )}
+        <button
+          onClick={handleDownloadProject}
+          disabled={!enabled || files.length === 0 || downloading !== null}
+          className={buttonClass(enabled && files.length > 0 && downloading === null)}
+          title="Full FtcRobotController project with Gradle dependencies merged: open in Android Studio and build"
+        >
+          {downloading === 'project' ? 'Building...' : 'Download Project'}
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={!enabled || files.length === 0 || downloading !== null}
+          className={buttonClass(enabled && files.length > 0 && downloading === null)}
+        >
+          {downloading === 'zip' ? 'Downloading...' : 'Download All'}
+        </button>
+      </div>
     </div>
   );
 }
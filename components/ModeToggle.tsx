@@ -5,9 +5,11 @@ import { Mode } from '@/lib/types';
 interface ModeToggleProps {
   mode: Mode;
   onChange: (mode: Mode) => void;
+  maxTokens?: number;
+  onMaxTokensChange?: (maxTokens: number) => void;
 }
 
-export function ModeToggle({ mode, onChange }: ModeToggleProps) {
+export function ModeToggle({ mode, onChange, maxTokens, onMaxTokensChange }: ModeToggleProps) {
   const modes: { value: Mode; label: string; description: string }[] = [
     {
       value: 'full-generation',
@@ -46,6 +48,20 @@ export function ModeToggle({ mode, onChange }: ModeToggleProps) {
         ))}
       </div>
       <p className="text-xs text-textDim">{modes.find((m) => m.value === mode)?.description}</p>
+      {onMaxTokensChange && (
+        <div>
+          <label className="text-xs text-textMuted">Max output tokens ({modes.find((m) => m.value === mode)?.label})</label>
+          <input
+            type="number"
+            min="256"
+            step="256"
+            value={maxTokens ?? ''}
+            onChange={(e) => onMaxTokensChange(parseInt(e.target.value, 10) || 0)}
+            className="w-full mt-1 px-3 py-2 bg-black/30 glass-border rounded-xl text-sm text-text focus:outline-none focus:border-accent/50"
+          />
+          <p className="text-xs text-textDim mt-1">Capped at the model&apos;s output limit.</p>
+        </div>
+      )}
     </div>
   );
 }
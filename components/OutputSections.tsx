@@ -3,6 +3,9 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Message } from '@/lib/types';
 import { Pencil, Copy } from 'lucide-react';
+import { SourcesPanel } from '@/components/SourcesPanel';
+import { PatchResultsPanel } from '@/components/PatchResultsPanel';
+import { describeUsage } from '@/lib/usage';
 
 interface OutputSectionsProps {
   content: string;
@@ -151,6 +154,17 @@ function ChatMessage({
       <div className="prose prose-invert prose-sm max-w-none">
         <MarkdownContent content={content} />
       </div>
+      {!isUser && message.sources && <SourcesPanel sources={message.sources} />}
+      {!isUser && message.patches && <PatchResultsPanel patches={message.patches} />}
+      {!isUser && (message.usage || !!message.continuations) && (
+        <p className="text-xs text-textDim" title={message.usage?.model}>
+          {[
+            message.usage && describeUsage(message.usage),
+            message.continuations && `continued ${message.continuations}×`,
+            message.truncated && 'cut off at the output limit',
+          ].filter(Boolean).join(' · ')}
+        </p>
+      )}
     </div>
   );
 }
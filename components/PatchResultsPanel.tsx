@@ -0,0 +1,71 @@
+'use client';
+
+import { PatchSummary } from '@/lib/types';
+import { HunkResult } from '@/lib/patch';
+import { useState } from 'react';
+
+interface PatchResultsPanelProps {
+  patches: PatchSummary[];
+}
+
+function describeHunk(hunk: HunkResult): string {
+  if (hunk.status === 'rejected') return `rejected: ${hunk.reason}`;
+  return [
+    `line ${hunk.line}`,
+    hunk.offset && `offset ${hunk.offset > 0 ? '+' : ''}${hunk.offset}`,
+    hunk.fuzz && `fuzz ${hunk.fuzz}`,
+    hunk.whitespace && 'ignoring whitespace',
+  ].filter(Boolean).join(', ');
+}
+
+export function PatchResultsPanel({ patches }: PatchResultsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (patches.length === 0) return null;
+
+  const rejected = patches.reduce((sum, patch) => sum + patch.rejected.length, 0);
+
+  return (
+    <div className="border-t border-border pt-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`text-xs transition-colors ${rejected > 0 ? 'text-yellow-400/80 hover:text-yellow-300' : 'text-textMuted hover:text-text'}`}
+      >
+        {expanded ? 'Hide' : 'Show'} Patch Results ({patches.length} file{patches.length !== 1 ? 's' : ''}
+        {rejected > 0 && `, ${rejected} hunk${rejected !== 1 ? 's' : ''} rejected`})
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-2">
+          {patches.map(patch => {
+            const applied = patch.hunks.length - patch.rejected.length;
+            return (
+              <li key={patch.path} className="text-xs space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-text break-all">{patch.path}</span>
+                  <span className={applied === patch.hunks.length ? 'text-green-400' : 'text-yellow-400/80'}>
+                    {applied}/{patch.hunks.length} hunk{patch.hunks.length !== 1 ? 's' : ''} applied
+                    {patch.created && ' · new file'}
+                    {patch.deleted && ' · deleted'}
+                  </span>
+                </div>
+                <ul className="pl-3 text-textDim">
+                  {patch.hunks.map(hunk => (
+                    <li key={hunk.index} className={hunk.status === 'rejected' ? 'text-red-400/80' : undefined}>
+                      <span className="font-mono">{hunk.header}</span> — {describeHunk(hunk)}
+                    </li>
+                  ))}
+                </ul>
+                {patch.rejected.map((hunk, index) => (
+                  <pre key={index} className="bg-black/30 rounded-lg p-2 overflow-x-auto text-textMuted">
+                    {hunk.text}
+                  </pre>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { ProviderConfig } from '@/lib/types';
 
 interface RAGConfigProps {
   onAddRepo: (repoURL: string, openaiKey?: string) => Promise<void>;
   triggering?: 'auto';
-  apiConfig: {
-    provider: 'anthropic' | 'openai';
-    apiKey: string;
-  } | null;
+  apiConfig: Pick<ProviderConfig, 'provider' | 'apiKey'> | null;
 }
 
 export function RAGConfig({ onAddRepo, apiConfig }: RAGConfigProps) {
   const [ragStatus, setRagStatus] = useState<{
     initialized: boolean;
     initializing: boolean;
-    searchMode: 'semantic' | 'bm25';
+    searchMode: 'hybrid' | 'bm25';
+    embeddingBackend: string | null;
+    embeddingBackendLabel: string | null;
     documentCount: number;
     chunkCount: number;
     embeddedChunks: number;
@@ -96,8 +96,8 @@ export function RAGConfig({ onAddRepo, apiConfig }: RAGConfigProps) {
             <div>Chunks: {ragStatus.chunkCount}</div>
             <div>
               Search Mode:{' '}
-              {ragStatus.searchMode === 'semantic'
-                ? 'Semantic (OpenAI embeddings)'
+              {ragStatus.searchMode === 'hybrid'
+                ? `Hybrid (BM25 + ${ragStatus.embeddingBackendLabel ?? 'embeddings'})`
                 : 'BM25 text (Claude compatible)'}
             </div>
           </div>
@@ -0,0 +1,171 @@
+'use client';
+
+import { RerankerType, RetrievalPreferences, SeasonFilterMode } from '@/lib/types';
+import { SEASONS, SOURCE_PRIORITY_LABELS, SOURCE_WEIGHT, SourcePriority } from '@/lib/rag/types';
+import { useState } from 'react';
+
+interface RetrievalSettingsFormProps {
+  preferences: RetrievalPreferences;
+  onChange: (preferences: RetrievalPreferences) => void;
+}
+
+const SOURCES = Object.keys(SOURCE_PRIORITY_LABELS).map(Number) as SourcePriority[];
+
+// Source weight presets; a weight of 0 leaves that source out of retrieval
+const WEIGHT_PRESETS: Array<{ id: string; label: string; weights: Record<number, number> }> = [
+  { id: 'balanced', label: 'Balanced (default)', weights: {} },
+  {
+    id: 'sdk-only',
+    label: 'Official SDK samples only',
+    weights: Object.fromEntries(SOURCES.map(p => [p, p === SourcePriority.SDK ? SOURCE_WEIGHT[p] : 0])),
+  },
+  {
+    id: 'official-first',
+    label: 'Prefer official sources',
+    weights: {
+      [SourcePriority.SDK]: 3.0,
+      [SourcePriority.OFFICIAL_DOCS]: 2.5,
+      [SourcePriority.TOP_TEAMS]: 1.0,
+    },
+  },
+  {
+    id: 'team-code-first',
+    label: 'Prefer top team code',
+    weights: { [SourcePriority.TOP_TEAMS]: 3.0 },
+  },
+];
+
+function sameWeights(a: Record<number, number>, b: Record<number, number>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => a[Number(key)] === b[Number(key)]);
+}
+
+export function RetrievalSettingsForm({ preferences, onChange }: RetrievalSettingsFormProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const updatePreferences = (updates: Partial<RetrievalPreferences>) => {
+    onChange({ ...preferences, ...updates });
+  };
+
+  const updateWeight = (priority: SourcePriority, value: string) => {
+    const weights = { ...preferences.sourcePriorityWeights };
+    const weight = parseFloat(value);
+    if (Number.isNaN(weight) || weight === SOURCE_WEIGHT[priority]) {
+      delete weights[priority];
+    } else {
+      weights[priority] = Math.max(0, weight);
+    }
+    updatePreferences({ sourcePriorityWeights: weights });
+  };
+
+  const activePreset =
+    WEIGHT_PRESETS.find(preset => sameWeights(preset.weights, preferences.sourcePriorityWeights))?.id ?? 'custom';
+
+  return (
+    <div className="space-y-4 bg-surface border border-border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-text">Retrieval Sources</h3>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-accent hover:text-accentHover"
+        >
+          {expanded ? 'Collapse' : 'Expand'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-4">
+          {/* Season Filter */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-medium text-textMuted uppercase">Season</h4>
+
+            <div>
+              <label className="text-xs text-textMuted">Season Filter</label>
+              <select
+                value={preferences.seasonFilter}
+                onChange={(e) => updatePreferences({ seasonFilter: e.target.value })}
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded text-sm text-text focus:outline-none focus:border-accent"
+              >
+                <option value="auto">Auto (current season unless the prompt names another)</option>
+                <option value="all">All seasons</option>
+                {SEASONS.map(season => (
+                  <option key={season.tag} value={season.tag}>{season.tag}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="text-xs text-textMuted">Other Seasons</label>
+              <select
+                value={preferences.seasonFilterMode}
+                onChange={(e) => updatePreferences({ seasonFilterMode: e.target.value as SeasonFilterMode })}
+                disabled={preferences.seasonFilter === 'all'}
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded text-sm text-text focus:outline-none focus:border-accent disabled:opacity-50"
+              >
+                <option value="downweight">Down-weight</option>
+                <option value="exclude">Exclude</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Reranking */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-medium text-textMuted uppercase">Reranking</h4>
+
+            <div>
+              <label className="text-xs text-textMuted">Reranker</label>
+              <select
+                value={preferences.reranker}
+                onChange={(e) => updatePreferences({ reranker: e.target.value as RerankerType })}
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded text-sm text-text focus:outline-none focus:border-accent"
+              >
+                <option value="local">Local (fast, no API calls)</option>
+                <option value="llm">LLM (uses your API key, one extra call)</option>
+                <option value="none">Off</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Source Weights */}
+          <div className="space-y-3">
+            <h4 className="text-xs font-medium text-textMuted uppercase">Source Weights</h4>
+
+            <div>
+              <label className="text-xs text-textMuted">Preset</label>
+              <select
+                value={activePreset}
+                onChange={(e) => {
+                  const preset = WEIGHT_PRESETS.find(p => p.id === e.target.value);
+                  if (preset) updatePreferences({ sourcePriorityWeights: { ...preset.weights } });
+                }}
+                className="w-full mt-1 px-3 py-2 bg-background border border-border rounded text-sm text-text focus:outline-none focus:border-accent"
+              >
+                {WEIGHT_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+                {activePreset === 'custom' && <option value="custom">Custom</option>}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {SOURCES.map(priority => (
+                <div key={priority}>
+                  <label className="text-xs text-textMuted">{SOURCE_PRIORITY_LABELS[priority]}</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={preferences.sourcePriorityWeights[priority] ?? SOURCE_WEIGHT[priority]}
+                    onChange={(e) => updateWeight(priority, e.target.value)}
+                    className="w-full mt-1 px-3 py-2 bg-background border border-border rounded text-sm text-text focus:outline-none focus:border-accent"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-textDim">A weight of 0 leaves that source out of retrieval.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
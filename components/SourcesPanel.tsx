@@ -0,0 +1,62 @@
+'use client';
+
+import { RetrievedSource } from '@/lib/types';
+import { ExternalLink } from 'lucide-react';
+import { useState } from 'react';
+
+interface SourcesPanelProps {
+  sources: RetrievedSource[];
+}
+
+function formatLocation(source: RetrievedSource): string {
+  const parts: string[] = [];
+  if (source.page !== undefined) parts.push(`Page ${source.page}`);
+  if (source.startLine !== undefined && source.endLine !== undefined) {
+    parts.push(`L${source.startLine}-L${source.endLine}`);
+  }
+  return parts.join(', ');
+}
+
+export function SourcesPanel({ sources }: SourcesPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="border-t border-border pt-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="text-xs text-textMuted hover:text-text transition-colors"
+      >
+        {expanded ? 'Hide' : 'Show'} Sources ({sources.length})
+      </button>
+
+      {expanded && (
+        <ol className="mt-2 space-y-1.5">
+          {sources.map(source => {
+            const location = formatLocation(source);
+            return (
+              <li key={source.index} className="flex items-start gap-2 text-xs">
+                <span className="text-textDim font-mono shrink-0">[{source.index}]</span>
+                <div className="min-w-0">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-accent hover:text-accentHover break-all"
+                  >
+                    {source.title}
+                    <ExternalLink className="w-3 h-3 shrink-0" />
+                  </a>
+                  <div className="text-textDim">
+                    {[location, source.priorityLabel, `score ${source.score.toFixed(3)}`].filter(Boolean).join(' · ')}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
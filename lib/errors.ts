@@ -0,0 +1,74 @@
+/**
+ * Request Errors
+ * Client-side handling of the typed error payloads returned by /api/claude
+ */
+
+import { APIErrorPayload, ErrorKind } from './types';
+
+export const ERROR_MESSAGES: Record<ErrorKind, { title: string; hint: string }> = {
+  auth: {
+    title: 'Authentication Error',
+    hint: 'Your API key is missing, invalid or expired. Open settings (⚙️), then paste a new key from console.anthropic.com or platform.openai.com.',
+  },
+  rate_limit: {
+    title: 'Rate Limit',
+    hint: 'The provider is throttling requests or your quota is used up. Wait a minute and try again, or check your plan and billing.',
+  },
+  overloaded: {
+    title: 'Provider Overloaded',
+    hint: 'The provider is at capacity right now. Try again shortly, or switch to another model.',
+  },
+  context_length: {
+    title: 'Prompt Too Long',
+    hint: 'The conversation plus retrieved sources exceed the model\'s context window. Start a new session, lower Max tokens, or use a model with a larger context.',
+  },
+  network: {
+    title: 'Network Error',
+    hint: 'The provider could not be reached. Check your connection, and for a local server that the base URL is correct and the server is running.',
+  },
+  invalid_request: {
+    title: 'Invalid Request',
+    hint: 'The provider rejected the request. Check the model name and provider settings.',
+  },
+  server: {
+    title: 'Provider Error',
+    hint: 'The provider returned a server error. Try again in a moment.',
+  },
+  not_ready: {
+    title: 'Knowledge Base Not Ready',
+    hint: 'FTC sources are still syncing. Wait for the status bar to show Ready, then resend.',
+  },
+  unknown: {
+    title: 'Server Error',
+    hint: 'Something went wrong on the workbench server. Open DevTools (F12) → Console for details.',
+  },
+};
+
+export class RequestError extends Error {
+  constructor(readonly payload: APIErrorPayload) {
+    super(payload.error);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * Error payload from a non-OK response; bodies that aren't a payload become `unknown`
+ */
+export async function readErrorResponse(res: Response): Promise<APIErrorPayload> {
+  const text = await res.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body.kind === 'string' && body.kind in ERROR_MESSAGES) {
+      return { ...body, status: body.status ?? res.status };
+    }
+  } catch {
+    // not JSON
+  }
+  return { kind: 'unknown', error: text || res.statusText || 'Request failed', status: res.status };
+}
+
+export function formatRequestError(payload: APIErrorPayload): string {
+  const { title, hint } = ERROR_MESSAGES[payload.kind] ?? ERROR_MESSAGES.unknown;
+  const attempts = payload.attempts && payload.attempts > 1 ? ` after ${payload.attempts} attempts` : '';
+  return `❌ ${title}${payload.status ? ` (${payload.status})` : ''}${attempts}\n\n${payload.error}\n\n${hint}`;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+
+import { addToBlock, dependencyKey, detectLibraries, parseGradleSnippet, repositoryKey } from './gradle';
+
+// Shaped like the SDK skeleton's build.dependencies.gradle
+const SDK_DEPENDENCIES = `repositories {
+    mavenCentral()
+    google() // Needed for androidx
+}
+
+dependencies {
+    implementation 'org.firstinspires.ftc:Inspection:10.3.0'
+    implementation 'org.firstinspires.ftc:RobotCore:10.3.0'
+    implementation 'androidx.appcompat:appcompat:1.2.0'
+}
+`;
+
+describe('parseGradleSnippet', () => {
+  it('reads declarations wrapped in blocks or as bare lines', () => {
+    expect(parseGradleSnippet(`repositories {\n    maven { url = 'https://maven.brott.dev/' }\n}\ndependencies {\n    implementation 'org.ftclib.ftclib:core:2.1.1'\n}\n`)).toEqual({
+      repositories: ["maven { url = 'https://maven.brott.dev/' }"],
+      dependencies: ["implementation 'org.ftclib.ftclib:core:2.1.1'"],
+      unrecognized: [],
+    });
+    expect(parseGradleSnippet("implementation 'com.pedropathing:ftc:2.0.0'\nmavenCentral()\n")).toEqual({
+      repositories: ['mavenCentral()'],
+      dependencies: ["implementation 'com.pedropathing:ftc:2.0.0'"],
+      unrecognized: [],
+    });
+  });
+
+  it('strips closing braces left on a declaration\'s line', () => {
+    const parsed = parseGradleSnippet("dependencies { implementation 'org.ftclib.ftclib:core:2.1.1' }\nrepositories { maven { url 'https://maven.brott.dev/' } }");
+    expect(parsed.dependencies).toEqual(["implementation 'org.ftclib.ftclib:core:2.1.1'"]);
+    expect(parsed.repositories).toEqual(["maven { url 'https://maven.brott.dev/' }"]);
+    expect(parsed.unrecognized).toEqual([]);
+  });
+
+  it('joins multi-line maven and dependency blocks', () => {
+    const parsed = parseGradleSnippet(`repositories {
+    maven {
+        url = uri('https://mymaven.bylazar.com/releases')
+    }
+}
+dependencies {
+    implementation('com.acmerobotics.dashboard:dashboard:0.4.16') {
+        exclude group: 'org.firstinspires.ftc'
+    }
+}`);
+    expect(parsed.repositories).toEqual(["maven { url = uri('https://mymaven.bylazar.com/releases') }"]);
+    expect(parsed.dependencies).toEqual(["implementation('com.acmerobotics.dashboard:dashboard:0.4.16') { exclude group: 'org.firstinspires.ftc' }"]);
+  });
+
+  it('drops comments and reports lines it does not understand', () => {
+    const parsed = parseGradleSnippet("/* Road Runner\n   setup */\n// repositories\nimplementation 'a.b:c:1' // latest\napply plugin: 'kotlin-android'\nmaven {\n    url 'https://x/'\n");
+    expect(parsed.dependencies).toEqual(["implementation 'a.b:c:1'"]);
+    expect(parsed.unrecognized).toEqual(["apply plugin: 'kotlin-android'", "maven { url 'https://x/'"]);
+  });
+});
+
+describe('keys', () => {
+  it('compares repositories by normalized URL', () => {
+    expect(repositoryKey("maven { url = 'https://Maven.Brott.dev/' }")).toBe('https://maven.brott.dev');
+    expect(repositoryKey("maven { url uri(\"https://maven.brott.dev\") }")).toBe('https://maven.brott.dev');
+    expect(repositoryKey('mavenCentral()')).toBe('mavencentral()');
+  });
+
+  it('compares dependencies by group and artifact', () => {
+    expect(dependencyKey("implementation 'org.ftclib.ftclib:core:2.1.1'")).toBe('org.ftclib.ftclib:core');
+    expect(dependencyKey('api("org.ftclib.ftclib:core:2.0.0")')).toBe('org.ftclib.ftclib:core');
+    expect(dependencyKey("implementation project(':FtcRobotController')")).toBe("implementationproject(':FtcRobotController')");
+  });
+});
+
+describe('addToBlock', () => {
+  it('adds new declarations at the end of the existing block', () => {
+    const merge = addToBlock(SDK_DEPENDENCIES, 'dependencies', ["implementation 'org.ftclib.ftclib:core:2.1.1'"], dependencyKey);
+    expect(merge.added).toEqual(["implementation 'org.ftclib.ftclib:core:2.1.1'"]);
+    expect(merge.source).toBe(SDK_DEPENDENCIES.replace(
+      "appcompat:1.2.0'\n}",
+      "appcompat:1.2.0'\n\n    implementation 'org.ftclib.ftclib:core:2.1.1'\n}"
+    ));
+    expect(parseGradleSnippet(merge.source).dependencies).toHaveLength(4);
+  });
+
+  it('creates the block when the file has none', () => {
+    const merge = addToBlock("apply plugin: 'com.android.library'\n", 'dependencies', ["implementation 'a.b:c:1'"], dependencyKey);
+    expect(merge.source).toBe("apply plugin: 'com.android.library'\n\ndependencies {\n    implementation 'a.b:c:1'\n}\n");
+  });
+
+  it('ignores blocks nested in buildscript', () => {
+    const source = "buildscript {\n    repositories {\n        google()\n    }\n}\n\nrepositories {\n    mavenCentral()\n}\n";
+    const merge = addToBlock(source, 'repositories', ["maven { url = 'https://maven.brott.dev/' }"], repositoryKey);
+    expect(merge.source).toBe(source.replace("    mavenCentral()\n}", "    mavenCentral()\n\n    maven { url = 'https://maven.brott.dev/' }\n}"));
+  });
+
+  it('skips duplicates and the built-in repositories', () => {
+    const merge = addToBlock(SDK_DEPENDENCIES, 'repositories', [
+      'mavenCentral()',
+      'google()',
+      "maven { url = 'https://maven.brott.dev/' }",
+      "maven { url 'https://maven.brott.dev' }",
+    ], repositoryKey);
+    expect(merge.added).toEqual(["maven { url = 'https://maven.brott.dev/' }"]);
+  });
+
+  it('keeps existing artifacts declared at another version', () => {
+    const merge = addToBlock(SDK_DEPENDENCIES, 'dependencies', [
+      "implementation 'androidx.appcompat:appcompat:1.2.0'",
+      "implementation 'androidx.appcompat:appcompat:1.6.1'",
+    ], dependencyKey);
+    expect(merge).toMatchObject({ source: SDK_DEPENDENCIES, added: [], kept: ["implementation 'androidx.appcompat:appcompat:1.6.1'"] });
+  });
+
+  it('never changes SDK artifacts', () => {
+    const merge = addToBlock(SDK_DEPENDENCIES, 'dependencies', [
+      "implementation 'org.firstinspires.ftc:RobotCore:10.3.0'",
+      "implementation 'org.firstinspires.ftc:RobotCore:9.0.0'",
+      "implementation 'org.firstinspires.ftc:Vision:10.3.0'",
+    ], dependencyKey);
+    expect(merge).toMatchObject({
+      source: SDK_DEPENDENCIES,
+      added: [],
+      kept: [],
+      skipped: ["implementation 'org.firstinspires.ftc:RobotCore:9.0.0'", "implementation 'org.firstinspires.ftc:Vision:10.3.0'"],
+    });
+  });
+});
+
+describe('detectLibraries', () => {
+  it('finds libraries from imports and declared dependencies', () => {
+    const sources = ['package x;\n\nimport com.acmerobotics.roadrunner.Pose2d;\nimport static com.arcrobotics.ftclib.util.MathUtils.clamp;\n'];
+    const found = detectLibraries(sources, ["implementation 'com.bylazar:telemetry:0.1.0'", "implementation 'org.ftclib.ftclib:core:2.1.1'"]);
+    expect(found.map(({ library, imported, declared }) => [library.id, imported, declared])).toEqual([
+      ['roadrunner', true, false],
+      ['pedro', false, true],
+      ['ftclib', true, true],
+    ]);
+  });
+
+  it('ignores packages that only share a prefix', () => {
+    expect(detectLibraries(['import com.pedropathingx.Foo;'], [])).toEqual([]);
+  });
+});
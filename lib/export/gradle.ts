@@ -0,0 +1,229 @@
+/**
+ * Gradle Merging
+ * Folds model-written Gradle snippets (the GRADLE_* files from extractFiles) into the SDK's
+ * real build files, and adds the maven repositories and dependencies that libraries used by
+ * the generated code need (gradle-libraries.json)
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import defaultLibraries from './gradle-libraries.json';
+import { createLogger } from '../logger';
+
+const log = createLogger('Gradle');
+
+export interface GradleLibrary {
+  id: string;
+  label: string;
+  repository?: string;    // maven URL; omitted for libraries on mavenCentral
+  groups: string[];       // dependency groups that belong to this library
+  packages: string[];     // Java packages that imply it
+  dependencies: string[]; // declarations added when code imports it but no snippet declares it
+}
+
+export interface GradleAdditions {
+  repositories: string[];   // e.g. "maven { url = 'https://maven.brott.dev/' }"
+  dependencies: string[];   // e.g. "implementation 'org.ftclib.ftclib:core:2.1.1'"
+  unrecognized: string[];   // snippet lines that are neither (left for the team to apply)
+}
+
+// Repositories the SDK's build.dependencies.gradle already declares
+const BUILT_IN_REPOSITORIES = ['mavencentral()', 'google()'];
+
+// The SDK's own artifacts are pinned by the skeleton; snippets never change them
+const SDK_GROUP = 'org.firstinspires.ftc';
+
+const CONFIGURATION = /^(implementation|api|compileOnly|runtimeOnly|annotationProcessor|kapt|testImplementation)\b/;
+const COORDINATE = /['"]([^'":\s]+):([^'":\s]+)(?::[^'"]*)?['"]/;
+
+let libraries: GradleLibrary[] | null = null;
+
+/**
+ * Built-in table merged with an optional JSON file at EXPORT_GRADLE_LIBRARIES
+ * (entries add libraries or override built-in ones by id)
+ */
+export function getGradleLibraries(): GradleLibrary[] {
+  if (libraries) return libraries;
+
+  const table = new Map<string, GradleLibrary>();
+  for (const entry of defaultLibraries as GradleLibrary[]) table.set(entry.id, entry);
+
+  const extraPath = process.env.EXPORT_GRADLE_LIBRARIES;
+  if (extraPath) {
+    try {
+      const extra = JSON.parse(fs.readFileSync(path.resolve(extraPath), 'utf-8'));
+      if (!Array.isArray(extra)) throw new Error('expected a JSON array of libraries');
+      for (const entry of extra) {
+        if (!entry || typeof entry.id !== 'string') continue;
+        table.set(entry.id, { groups: [], packages: [], dependencies: [], label: entry.id, ...table.get(entry.id), ...entry });
+      }
+      log.info('Loaded Gradle libraries', { count: extra.length, path: extraPath });
+    } catch (error) {
+      log.warn('Failed to load Gradle libraries', { path: extraPath, error });
+    }
+  }
+
+  libraries = Array.from(table.values());
+  return libraries;
+}
+
+function braceBalance(text: string): number {
+  return (text.match(/\{/g)?.length ?? 0) - (text.match(/\}/g)?.length ?? 0);
+}
+
+function repositoryURL(declaration: string): string | null {
+  return declaration.match(/url\s*=?\s*(?:uri\s*\(\s*)?['"]([^'"]+)['"]/)?.[1] ?? null;
+}
+
+function normalizeURL(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+export function repositoryKey(declaration: string): string {
+  const url = repositoryURL(declaration);
+  return url ? normalizeURL(url) : declaration.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * "group:artifact" for Maven coordinates, the whitespace-free text otherwise (project(...), files(...))
+ */
+export function dependencyKey(declaration: string): string {
+  const match = declaration.match(COORDINATE);
+  return match ? `${match[1]}:${match[2]}` : declaration.replace(/\s+/g, '');
+}
+
+export function mavenRepository(url: string): string {
+  return `maven { url = '${url}' }`;
+}
+
+/**
+ * Pull repository and dependency declarations out of a snippet, whether it's a bare list of
+ * lines or wrapped in repositories { } / dependencies { } blocks
+ */
+export function parseGradleSnippet(content: string): GradleAdditions {
+  const additions: GradleAdditions = { repositories: [], dependencies: [], unrecognized: [] };
+  const lines = content
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\b(repositories|dependencies)\s*\{/g, '$1 {\n')
+    .split('\n')
+    .map(line => line.replace(/(^|\s)\/\/.*$/, '').trim());
+
+  let pending: { kind: 'repositories' | 'dependencies'; text: string; depth: number } | null = null;
+  const joined = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  for (let line of lines) {
+    if (pending) {
+      pending.text += ` ${line}`;
+      pending.depth += braceBalance(line);
+      if (pending.depth <= 0) {
+        additions[pending.kind].push(joined(pending.text));
+        pending = null;
+      }
+      continue;
+    }
+
+    // Closing braces of enclosing blocks that ended up on a declaration's line
+    while (braceBalance(line) < 0 && line.endsWith('}')) line = line.slice(0, -1).trim();
+    if (!line || line === '}' || /^(repositories|dependencies)\s*\{$/.test(line)) continue;
+
+    const kind = /^(maven\b|mavenCentral\(\)|google\(\)|mavenLocal\(\))/.test(line)
+      ? 'repositories'
+      : CONFIGURATION.test(line) ? 'dependencies' : null;
+    if (!kind) {
+      additions.unrecognized.push(line);
+      continue;
+    }
+
+    const depth = braceBalance(line);
+    if (depth > 0) pending = { kind, text: line, depth };
+    else additions[kind].push(line);
+  }
+
+  if (pending) additions.unrecognized.push(joined(pending.text));
+  return additions;
+}
+
+/**
+ * Start of the top-level `name { ... }` block and the index of its closing brace
+ */
+function findBlock(source: string, name: string): { open: number; close: number } | null {
+  const pattern = new RegExp(`(^|\\n)[ \\t]*${name}\\s*\\{`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const open = match.index + match[0].length - 1;
+    if (braceBalance(source.slice(0, open)) !== 0) continue; // nested, e.g. buildscript { repositories { } }
+
+    let depth = 0;
+    for (let i = open; i < source.length; i++) {
+      if (source[i] === '{') depth++;
+      else if (source[i] === '}' && --depth === 0) return { open, close: i };
+    }
+    return null;
+  }
+  return null;
+}
+
+/**
+ * Add declarations to a top-level block of a build file (creating the block if needed),
+ * skipping ones it already has. Returns the new source, what was actually added, existing
+ * artifacts declared differently (`kept`) and SDK artifacts left at the skeleton's version (`skipped`).
+ */
+export function addToBlock(
+  source: string,
+  name: 'repositories' | 'dependencies',
+  declarations: string[],
+  key: (declaration: string) => string
+): { source: string; added: string[]; kept: string[]; skipped: string[] } {
+  const block = findBlock(source, name);
+  const existing = block ? parseGradleSnippet(source.slice(block.open + 1, block.close))[name] : [];
+  const seen = new Set(existing.map(key));
+  const existingKeys = new Set(seen);
+
+  const compact = (declaration: string) => declaration.replace(/\s+/g, '');
+  const isExisting = (declaration: string) => existing.some(e => compact(e) === compact(declaration));
+
+  const added: string[] = [];
+  const kept: string[] = [];
+  const skipped: string[] = [];
+  for (const declaration of declarations) {
+    const id = key(declaration);
+    if (name === 'dependencies' && id.startsWith(`${SDK_GROUP}:`)) {
+      if (!isExisting(declaration) && !skipped.includes(declaration)) skipped.push(declaration);
+      continue;
+    }
+    if (name === 'repositories' && BUILT_IN_REPOSITORIES.includes(id)) continue;
+    if (seen.has(id)) {
+      if (existingKeys.has(id) && !isExisting(declaration)) {
+        kept.push(declaration); // same artifact already declared, e.g. at another version
+      }
+      continue;
+    }
+    seen.add(id);
+    added.push(declaration);
+  }
+
+  if (added.length === 0) return { source, added, kept, skipped };
+
+  const lines = added.map(declaration => `    ${declaration}`).join('\n');
+  if (!block) {
+    return { source: `${source.trimEnd()}\n\n${name} {\n${lines}\n}\n`, added, kept, skipped };
+  }
+
+  const before = source.slice(0, block.close).trimEnd();
+  return { source: `${before}\n\n${lines}\n${source.slice(block.close)}`, added, kept, skipped };
+}
+
+/**
+ * Libraries the generated sources import or the declared dependencies belong to
+ */
+export function detectLibraries(sources: string[], dependencies: string[]): Array<{ library: GradleLibrary; imported: boolean; declared: boolean }> {
+  const groups = dependencies.map(dependencyKey).map(key => key.split(':')[0]);
+  return getGradleLibraries().flatMap(library => {
+    const imported = sources.some(source =>
+      library.packages.some(pkg => new RegExp(`^\\s*import\\s+(static\\s+)?${pkg.replace(/\./g, '\\.')}\\.`, 'm').test(source))
+    );
+    const declared = groups.some(group => library.groups.some(prefix => group === prefix || group.startsWith(`${prefix}.`)));
+    return imported || declared ? [{ library, imported, declared }] : [];
+  });
+}
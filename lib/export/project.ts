@@ -0,0 +1,253 @@
+/**
+ * Project Export
+ * Lays generated files into a full FtcRobotController skeleton (the SDK repository's archive)
+ * with Gradle snippets merged into its build files, so the zip opens and builds in Android Studio
+ */
+
+import JSZip from 'jszip';
+
+import { GeneratedFile } from '../types';
+import { createLogger } from '../logger';
+import { downloadRepoArchive } from '../rag/ingest';
+import {
+  addToBlock,
+  dependencyKey,
+  detectLibraries,
+  mavenRepository,
+  parseGradleSnippet,
+  repositoryKey,
+} from './gradle';
+
+const log = createLogger('Export');
+
+const SDK_OWNER = 'FIRST-Tech-Challenge';
+const SDK_REPO = 'FtcRobotController';
+export const PROJECT_ROOT = 'FtcRobotController';
+
+const TEAMCODE_JAVA = 'TeamCode/src/main/java';
+const DEFAULT_PACKAGE = 'org.firstinspires.ftc.teamcode';
+
+// Where snippets land: repositories are shared by both modules, dependencies belong to TeamCode
+const REPOSITORIES_FILE = 'build.dependencies.gradle';
+const TEAMCODE_BUILD_FILE = 'TeamCode/build.gradle';
+const ROOT_BUILD_FILE = 'build.gradle';
+
+// Kotlin sources need the plugin; the SDK targets Java 8 so Kotlin must too
+const KOTLIN_PLUGIN_VERSION = '1.9.24';
+
+// Repository folders a team doesn't need to build
+const SKIPPED_DIRECTORIES = ['doc/', '.github/'];
+
+export interface ProjectExport {
+  zip: Buffer;
+  placed: Array<{ from: string; to: string }>;
+  repositories: string[];   // added to build.dependencies.gradle
+  dependencies: string[];   // added to TeamCode/build.gradle or build.dependencies.gradle
+  notes: string[];          // things left for the team to do by hand
+}
+
+interface GradleTarget {
+  file: string;
+  snippet: string;
+}
+
+/**
+ * Path segments without leading slashes or `.`/`..`, so nothing lands outside the project
+ */
+function cleanPath(filePath: string): string {
+  return filePath
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+function basename(filePath: string): string {
+  return filePath.split('/').pop() ?? filePath;
+}
+
+/**
+ * Sources go where their package declaration says; other files keep their place under TeamCode
+ */
+export function projectPath(file: GeneratedFile): string {
+  const filePath = cleanPath(file.path);
+
+  if (/\.(java|kt)$/.test(filePath)) {
+    const pkg = file.content.match(/^\s*package\s+([\w.]+)\s*;?\s*$/m)?.[1] ?? DEFAULT_PACKAGE;
+    return `${TEAMCODE_JAVA}/${pkg.replace(/\./g, '/')}/${basename(filePath)}`;
+  }
+
+  if (/^(TeamCode|FtcRobotController)\//.test(filePath)) return filePath;
+  return `TeamCode/${filePath}`;
+}
+
+/**
+ * Snippets from extractFiles (GRADLE_<target>, with a "// Add to <target>:" line) or
+ * files the model wrote as whole .gradle files
+ */
+function gradleTarget(file: GeneratedFile): GradleTarget | null {
+  const filePath = cleanPath(file.path);
+  const name = filePath.startsWith('GRADLE_') ? filePath.slice('GRADLE_'.length) : filePath.endsWith('.gradle') ? filePath : null;
+  if (name === null) return null;
+
+  const snippet = file.content.replace(/^\/\/ Add to .*:\n/, '');
+  return { file: /dependencies/.test(name) ? REPOSITORIES_FILE : TEAMCODE_BUILD_FILE, snippet };
+}
+
+/**
+ * Apply the Kotlin Android plugin to TeamCode, adding its classpath to the root build file
+ */
+function enableKotlin(build: Map<string, string>): boolean {
+  const root = build.get(ROOT_BUILD_FILE);
+  const teamCode = build.get(TEAMCODE_BUILD_FILE);
+  const agp = /^([ \t]*)classpath ['"]com\.android\.tools\.build:gradle:[^'"]+['"].*$/m;
+  const applied = /^apply from: '\.\.\/build\.dependencies\.gradle'.*$/m;
+  const android = /^android \{$/m;
+  if (!root || !teamCode || !agp.test(root) || !applied.test(teamCode) || !android.test(teamCode)) return false;
+
+  build.set(ROOT_BUILD_FILE, root.replace(agp, line => {
+    const indent = line.match(/^[ \t]*/)?.[0] ?? '';
+    return `${line}\n${indent}classpath 'org.jetbrains.kotlin:kotlin-gradle-plugin:${KOTLIN_PLUGIN_VERSION}'`;
+  }));
+  build.set(TEAMCODE_BUILD_FILE, teamCode
+    .replace(applied, line => `${line}\napply plugin: 'kotlin-android'`)
+    .replace(android, line => `${line}\n    kotlinOptions {\n        jvmTarget = '1.8'\n    }\n`));
+  return true;
+}
+
+function exportNotes(result: Omit<ProjectExport, 'zip'>): string {
+  const list = (items: string[]) => items.map(item => `- \`${item}\``).join('\n');
+  return [
+    '# FTC Workbench Export',
+    '',
+    'Open this folder in Android Studio (File → Open), let Gradle sync, then build and deploy as usual.',
+    '',
+    '## Generated files',
+    '',
+    result.placed.map(({ from, to }) => (from === to ? `- \`${to}\`` : `- \`${to}\` (generated as \`${from}\`)`)).join('\n') || '- none',
+    ...(result.repositories.length > 0 ? ['', '## Repositories added to build.dependencies.gradle', '', list(result.repositories)] : []),
+    ...(result.dependencies.length > 0 ? ['', '## Dependencies added', '', list(result.dependencies)] : []),
+    ...(result.notes.length > 0 ? ['', '## Check by hand', '', result.notes.map(note => `- ${note}`).join('\n')] : []),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Build the project zip, or null when the SDK skeleton can't be downloaded (and isn't cached)
+ */
+export async function buildProjectArchive(files: GeneratedFile[]): Promise<ProjectExport | null> {
+  const archive = await downloadRepoArchive(SDK_OWNER, SDK_REPO);
+  if (!archive) return null;
+
+  const skeleton = await JSZip.loadAsync(archive.buffer);
+  const prefix = `${SDK_REPO}-${archive.branch}/`;
+  const output = new JSZip();
+  const build = new Map<string, string>();
+
+  for (const entry of Object.values(skeleton.files)) {
+    if (entry.dir || !entry.name.startsWith(prefix)) continue;
+    const name = entry.name.slice(prefix.length);
+    if (!name || SKIPPED_DIRECTORIES.some(dir => name.startsWith(dir))) continue;
+
+    if (name.endsWith('.gradle')) {
+      build.set(name, await entry.async('string'));
+      continue;
+    }
+    // unixPermissions keeps gradlew executable
+    output.file(`${PROJECT_ROOT}/${name}`, await entry.async('uint8array'), {
+      date: entry.date,
+      unixPermissions: entry.unixPermissions ?? undefined,
+    });
+  }
+
+  const placed: ProjectExport['placed'] = [];
+  const snippets: GradleTarget[] = [];
+  const sources: string[] = [];
+  const notes: string[] = [];
+
+  for (const file of files) {
+    const target = gradleTarget(file);
+    if (target) {
+      snippets.push(target);
+      continue;
+    }
+
+    const to = projectPath(file);
+    output.file(`${PROJECT_ROOT}/${to}`, file.content);
+    placed.push({ from: file.path, to });
+    if (/\.(java|kt)$/.test(to)) sources.push(file.content);
+  }
+
+  // Declarations from the snippets, per target file
+  const repositories: string[] = [];
+  const dependencies = new Map<string, string[]>();
+  for (const { file, snippet } of snippets) {
+    const parsed = parseGradleSnippet(snippet);
+    repositories.push(...parsed.repositories);
+    dependencies.set(file, [...(dependencies.get(file) ?? []), ...parsed.dependencies]);
+    notes.push(...parsed.unrecognized.map(line => `Not merged into \`${file}\`: \`${line}\``));
+  }
+
+  // Libraries the code imports: their repository, and their artifacts when no snippet declares one
+  const declared = [
+    ...Array.from(dependencies.values()).flat(),
+    ...[REPOSITORIES_FILE, TEAMCODE_BUILD_FILE].flatMap(file => parseGradleSnippet(build.get(file) ?? '').dependencies),
+  ];
+  for (const { library, imported, declared: isDeclared } of detectLibraries(sources, declared)) {
+    if (library.repository) repositories.push(mavenRepository(library.repository));
+    if (imported && !isDeclared) {
+      dependencies.set(TEAMCODE_BUILD_FILE, [...(dependencies.get(TEAMCODE_BUILD_FILE) ?? []), ...library.dependencies]);
+    }
+  }
+
+  const added: Pick<ProjectExport, 'repositories' | 'dependencies'> = { repositories: [], dependencies: [] };
+
+  const repoMerge = addToBlock(build.get(REPOSITORIES_FILE) ?? '', 'repositories', repositories, repositoryKey);
+  build.set(REPOSITORIES_FILE, repoMerge.source);
+  added.repositories.push(...repoMerge.added);
+
+  // SDK artifacts are declared once, in build.dependencies.gradle; repeating one as-is is harmless
+  const compact = (declaration: string) => declaration.replace(/\s+/g, '');
+  const sdkDeclarations = new Set(parseGradleSnippet(build.get(REPOSITORIES_FILE) ?? '').dependencies.map(compact));
+
+  for (const [file, declarations] of dependencies) {
+    const merge = addToBlock(build.get(file) ?? '', 'dependencies', declarations, dependencyKey);
+    build.set(file, merge.source);
+    added.dependencies.push(...merge.added);
+    notes.push(...merge.kept.map(declaration =>
+      `\`${declaration}\` is already declared in \`${file}\` with different settings; kept the SDK's.`
+    ));
+    notes.push(...merge.skipped.filter(declaration => !sdkDeclarations.has(compact(declaration))).map(declaration =>
+      `\`${declaration}\` changes an FTC SDK artifact and was not merged; the project keeps the SDK version in \`build.dependencies.gradle\`.`
+    ));
+  }
+
+  if (placed.some(({ to }) => to.endsWith('.kt'))) {
+    if (enableKotlin(build)) {
+      added.dependencies.push(`classpath 'org.jetbrains.kotlin:kotlin-gradle-plugin:${KOTLIN_PLUGIN_VERSION}'`);
+    } else {
+      notes.push('Kotlin sources need the Kotlin Android plugin applied to TeamCode.');
+    }
+  }
+
+  for (const [name, content] of build) output.file(`${PROJECT_ROOT}/${name}`, content);
+
+  const result = { placed, ...added, notes };
+  output.file(`${PROJECT_ROOT}/WORKBENCH_EXPORT.md`, exportNotes(result));
+
+  const zip = await output.generateAsync({
+    type: 'nodebuffer',
+    platform: 'UNIX',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 9 },
+  });
+
+  log.info('Project exported', {
+    branch: archive.branch,
+    files: placed.length,
+    repositories: added.repositories.length,
+    dependencies: added.dependencies.length,
+    notes: notes.length,
+  });
+  return { zip, ...result };
+}
@@ -0,0 +1,75 @@
+/**
+ * Syntax Highlighting
+ * Minimal line tokenizer for Java and Kotlin, enough to color diffs in the review UI.
+ * Works one line at a time (diff lines arrive out of context), so block comments are
+ * recognized by their leading "/*" or "*" rather than tracked across lines.
+ */
+
+export type TokenKind = 'keyword' | 'type' | 'string' | 'comment' | 'number' | 'annotation' | 'plain';
+export type CodeLanguage = 'java' | 'kotlin';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+const KEYWORDS: Record<CodeLanguage, Set<string>> = {
+  java: new Set([
+    'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default',
+    'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if',
+    'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'package',
+    'private', 'protected', 'public', 'return', 'short', 'static', 'super', 'switch', 'synchronized',
+    'this', 'throw', 'throws', 'true', 'try', 'var', 'void', 'volatile', 'while',
+  ]),
+  kotlin: new Set([
+    'as', 'break', 'by', 'class', 'companion', 'const', 'continue', 'data', 'do', 'else', 'enum',
+    'false', 'for', 'fun', 'if', 'import', 'in', 'init', 'interface', 'internal', 'is', 'lateinit',
+    'null', 'object', 'open', 'override', 'package', 'private', 'protected', 'public', 'return',
+    'sealed', 'super', 'this', 'throw', 'true', 'try', 'catch', 'finally', 'val', 'var', 'when', 'while',
+  ]),
+};
+
+// Alternatives in priority order; the group that matched decides the token kind
+const TOKEN_PATTERN =
+  /(\/\/.*$|\/\*.*?(?:\*\/|$))|("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?)|(@[A-Za-z_]\w*)|(\b\d[\d_]*(?:\.\d+)?[fFdDL]?\b)|([A-Za-z_$][\w$]*)/g;
+
+export function languageForPath(path: string): CodeLanguage {
+  return path.toLowerCase().endsWith('.kt') ? 'kotlin' : 'java';
+}
+
+export function tokenizeLine(line: string, language: CodeLanguage): Token[] {
+  // Lines inside a block or Javadoc comment: comment up to its end marker, if any
+  if (/^\s*(\/\*|\*)/.test(line)) {
+    const end = line.indexOf('*/', line.indexOf('*') + 1);
+    const split = end < 0 ? line.length : end + 2;
+    const rest = line.slice(split);
+    return [{ kind: 'comment', text: line.slice(0, split) }, ...(rest ? tokenizeLine(rest, language) : [])];
+  }
+
+  const tokens: Token[] = [];
+  let last = 0;
+  const push = (kind: TokenKind, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous?.kind === kind) previous.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  for (const match of line.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) push('plain', line.slice(last, index));
+    const [text, comment, string, annotation, number, word] = match;
+
+    if (comment) push('comment', text);
+    else if (string) push('string', text);
+    else if (annotation) push('annotation', text);
+    else if (number) push('number', text);
+    else if (word && KEYWORDS[language].has(word)) push('keyword', text);
+    else if (word && /^[A-Z]/.test(word) && /[a-z]/.test(word)) push('type', text);
+    else push('plain', text);
+
+    last = index + text.length;
+  }
+
+  if (last < line.length) push('plain', line.slice(last));
+  return tokens;
+}
@@ -0,0 +1,157 @@
+/**
+ * Model metadata
+ * Providers, default models per provider and context window sizes used for prompt budgeting
+ */
+
+import { AIProvider, Mode, ProviderConfig, TokenUsage } from './types';
+
+export interface ModelInfo {
+  contextWindow: number;     // tokens
+  maxOutputTokens?: number;  // API limit for max_tokens
+  reasoning?: boolean;       // OpenAI reasoning model: max_completion_tokens, default temperature only
+  pricing?: { input: number; output: number }; // USD per million tokens
+}
+
+export interface ProviderInfo {
+  label: string;
+  apiKey: 'required' | 'optional' | 'none';
+  keyHint?: string;         // API key placeholder, e.g. "sk-ant-..."
+  requiresBaseURL: boolean;
+  requiresModel: boolean;   // no sensible default model
+  dataNote: string;         // where prompts and keys go, shown under the settings
+}
+
+// Client-safe provider metadata; the implementations are registered in lib/providers
+export const PROVIDER_INFO: Record<AIProvider, ProviderInfo> = {
+  anthropic: {
+    label: 'Anthropic (Claude)',
+    apiKey: 'required',
+    keyHint: 'sk-ant-...',
+    requiresBaseURL: false,
+    requiresModel: false,
+    dataNote: 'Your API key is stored locally and sent only to Anthropic.',
+  },
+  openai: {
+    label: 'OpenAI (GPT)',
+    apiKey: 'required',
+    keyHint: 'sk-...',
+    requiresBaseURL: false,
+    requiresModel: false,
+    dataNote: 'Your API key is stored locally and sent only to OpenAI.',
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible server (Ollama, LM Studio, vLLM...)',
+    apiKey: 'optional',
+    requiresBaseURL: true,
+    requiresModel: true,
+    dataNote: 'Requests are sent from the workbench server to your base URL.',
+  },
+  mock: {
+    label: 'Mock (offline fixtures)',
+    apiKey: 'none',
+    requiresBaseURL: false,
+    requiresModel: false,
+    dataNote: 'Replays scripted responses from lib/providers/fixtures; no model is called.',
+  },
+};
+
+/**
+ * Reason a provider config can't be used, or null when it's complete
+ */
+export function validateProviderConfig(config: Partial<ProviderConfig>): string | null {
+  const info = config.provider ? PROVIDER_INFO[config.provider] : undefined;
+  if (!info) {
+    return `Unknown provider: ${config.provider}`;
+  }
+
+  if (info.apiKey === 'required' && !config.apiKey) {
+    return 'API key required';
+  }
+  if (info.requiresBaseURL) {
+    if (!config.baseURL) return 'Base URL required';
+    if (!/^https?:\/\/\S+$/.test(config.baseURL)) return 'Base URL must be an http(s) URL';
+  }
+  if (info.requiresModel && !config.model) {
+    return 'Model name required';
+  }
+  return null;
+}
+
+export const DEFAULT_MODELS: Partial<Record<AIProvider, string>> = {
+  anthropic: 'claude-sonnet-4-5-20250929',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Output token limit per mode; full generation emits whole files and needs the most room
+export const DEFAULT_MAX_TOKENS: Record<Mode, number> = {
+  'full-generation': 16000,
+  assist: 4096,
+  copilot: 8192,
+};
+
+// Matched by longest prefix, so dated snapshots (e.g. "gpt-4o-2024-08-06") resolve to their family.
+// Pricing is list price and only used for estimates.
+const MODEL_INFO: Record<string, ModelInfo> = {
+  'claude-': { contextWindow: 200000 },
+  'claude-3-haiku': { contextWindow: 200000, maxOutputTokens: 4096, pricing: { input: 0.25, output: 1.25 } },
+  'claude-3-opus': { contextWindow: 200000, maxOutputTokens: 4096, pricing: { input: 15, output: 75 } },
+  'claude-3-5-haiku': { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 0.8, output: 4 } },
+  'claude-3-5-sonnet': { contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15 } },
+  'claude-3-7-sonnet': { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 3, output: 15 } },
+  'claude-haiku-4': { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 1, output: 5 } },
+  'claude-sonnet-4': { contextWindow: 200000, maxOutputTokens: 64000, pricing: { input: 3, output: 15 } },
+  'claude-opus-4': { contextWindow: 200000, maxOutputTokens: 32000, pricing: { input: 15, output: 75 } },
+  'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096, pricing: { input: 0.5, output: 1.5 } },
+  'gpt-4': { contextWindow: 8192, maxOutputTokens: 8192, pricing: { input: 30, output: 60 } },
+  'gpt-4-32k': { contextWindow: 32768, maxOutputTokens: 8192, pricing: { input: 60, output: 120 } },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 } },
+  'gpt-4-1106': { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 } },
+  'gpt-4-0125': { contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 } },
+  'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10 } },
+  'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6 } },
+  'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 2, output: 8 } },
+  'gpt-4.1-mini': { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.4, output: 1.6 } },
+  'gpt-4.1-nano': { contextWindow: 1047576, maxOutputTokens: 32768, pricing: { input: 0.1, output: 0.4 } },
+  'gpt-5': { contextWindow: 400000, maxOutputTokens: 128000, reasoning: true, pricing: { input: 1.25, output: 10 } },
+  'gpt-5-mini': { contextWindow: 400000, maxOutputTokens: 128000, reasoning: true, pricing: { input: 0.25, output: 2 } },
+  'gpt-5-nano': { contextWindow: 400000, maxOutputTokens: 128000, reasoning: true, pricing: { input: 0.05, output: 0.4 } },
+  'o1': { contextWindow: 200000, maxOutputTokens: 100000, reasoning: true, pricing: { input: 15, output: 60 } },
+  'o3': { contextWindow: 200000, maxOutputTokens: 100000, reasoning: true, pricing: { input: 2, output: 8 } },
+  'o4-mini': { contextWindow: 200000, maxOutputTokens: 100000, reasoning: true, pricing: { input: 1.1, output: 4.4 } },
+};
+
+export function getModelInfo(model?: string): ModelInfo {
+  if (!model) return { contextWindow: DEFAULT_CONTEXT_WINDOW };
+
+  const prefix = Object.keys(MODEL_INFO)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_INFO[prefix] : { contextWindow: DEFAULT_CONTEXT_WINDOW };
+}
+
+// The answer may use at most this share of the context window; the rest is for the prompt
+const OUTPUT_WINDOW_SHARE = 0.5;
+
+/**
+ * Requested output limit clamped to what the model accepts and to its share of the context
+ * window (`contextWindow` overrides the model table); undefined keeps the provider default
+ */
+export function resolveMaxTokens(model: string | undefined, requested?: number, contextWindow?: number): number | undefined {
+  if (!requested || requested <= 0) return undefined;
+  const info = getModelInfo(model);
+  const windowLimit = (contextWindow || info.contextWindow) * OUTPUT_WINDOW_SHARE;
+  return Math.floor(Math.min(requested, info.maxOutputTokens ?? Infinity, windowLimit));
+}
+
+/**
+ * Estimated cost in USD, or undefined when the model has no known pricing (local models, mock)
+ */
+export function estimateCost(model: string | undefined, usage: TokenUsage): number | undefined {
+  const { pricing } = getModelInfo(model);
+  if (!pricing) return undefined;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
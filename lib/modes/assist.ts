@@ -3,7 +3,67 @@
  * Generates unified diffs for existing code modifications
  */
 
-import { RobotConfig, GeneratedDiff } from '../types';
+import { RobotConfig, GeneratedDiff, GeneratedFile } from '../types';
+import { applyFileDiff, formatFileDiff, parseUnifiedDiff, rejectFileDiff, PatchResult } from '../patch';
+
+// Source files that can be attached to an Assist request
+export const ASSIST_FILE_EXTENSIONS = ['.java', '.kt'];
+
+// Checked by the workbench before sending and again by /api/claude
+export const ASSIST_FILE_LIMITS = {
+  maxFiles: 20,
+  maxFileBytes: 64 * 1024,
+  maxTotalBytes: 256 * 1024,
+};
+
+export function isAssistSourceFile(path: string): boolean {
+  const lower = path.toLowerCase();
+  return ASSIST_FILE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Path sent for an attached file: folder uploads are re-rooted at TeamCode/ when they
+ * contain it (so diffs use project paths), otherwise kept relative to the chosen folder
+ */
+export function attachmentPath(relativePath: string): string {
+  const path = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+  const teamCode = path.search(/(^|\/)TeamCode\//);
+  if (teamCode < 0) return path;
+  return path.slice(teamCode).replace(/^\//, '');
+}
+
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Why a set of attached files can't be sent, or null when it's within the limits
+ */
+export function validateAssistFiles(files: GeneratedFile[]): string | null {
+  if (files.length > ASSIST_FILE_LIMITS.maxFiles) {
+    return `Too many attached files (${files.length}); the limit is ${ASSIST_FILE_LIMITS.maxFiles}.`;
+  }
+
+  let total = 0;
+  for (const file of files) {
+    if (typeof file?.path !== 'string' || typeof file.content !== 'string') {
+      return 'Attached files must each have a path and content.';
+    }
+    if (!isAssistSourceFile(file.path)) {
+      return `${file.path} is not a ${ASSIST_FILE_EXTENSIONS.join(' or ')} file.`;
+    }
+    const size = byteLength(file.content);
+    if (size > ASSIST_FILE_LIMITS.maxFileBytes) {
+      return `${file.path} is ${Math.ceil(size / 1024)} KB; the per-file limit is ${ASSIST_FILE_LIMITS.maxFileBytes / 1024} KB.`;
+    }
+    total += size;
+  }
+
+  if (total > ASSIST_FILE_LIMITS.maxTotalBytes) {
+    return `Attached files total ${Math.ceil(total / 1024)} KB; the limit is ${ASSIST_FILE_LIMITS.maxTotalBytes / 1024} KB.`;
+  }
+  return null;
+}
 
 export function buildAssistPrompt(
   userPrompt: string,
@@ -16,10 +76,20 @@ export function buildAssistPrompt(
   if (existingFiles && existingFiles.length > 0) {
     filesContext = '\n# Existing Files\n\n';
     existingFiles.forEach((file) => {
-      filesContext += `## File: ${file.path}\n\`\`\`java\n${file.content}\n\`\`\`\n\n`;
+      const language = file.path.toLowerCase().endsWith('.kt') ? 'kotlin' : 'java';
+      filesContext += `## File: ${file.path}\n\`\`\`${language}\n${file.content}\n\`\`\`\n\n`;
     });
   }
 
+  const filesInstructions = existingFiles && existingFiles.length > 0
+    ? `
+Diffs are applied automatically to the files above:
+- Use each file's path exactly as listed in the ---/+++ lines
+- Copy context and removed lines verbatim from the file, including indentation
+- If the change needs a file that wasn't provided, say so instead of guessing its contents
+`
+    : '';
+
   return `${retrievedContext}
 
 ${filesContext}
@@ -58,7 +128,8 @@ For each file:
 2. Include brief commentary (1-2 sentences) explaining the change
 3. Provide a 60-second test routine to verify the modification
 
-Keep diffs minimal and focused on the user's request.`;
+Keep diffs minimal and focused on the user's request.
+${filesInstructions}`;
 }
 
 /**
@@ -104,20 +175,99 @@ export function extractDiffs(response: string): GeneratedDiff[] {
 }
 
 /**
- * Apply diff to existing content (basic implementation)
- * For production, use a proper diff/patch library
+ * Original file a diff path refers to: exact path, else the longest shared path suffix
+ * (models often shorten or re-root paths), else null
+ */
+export function matchDiffPath(diffPath: string, paths: string[]): string | null {
+  if (paths.includes(diffPath)) return diffPath;
+
+  const segments = diffPath.split('/');
+  let best: { path: string; shared: number } | null = null;
+  for (const path of paths) {
+    const candidate = path.split('/');
+    let shared = 0;
+    while (
+      shared < segments.length &&
+      shared < candidate.length &&
+      segments[segments.length - 1 - shared] === candidate[candidate.length - 1 - shared]
+    ) {
+      shared++;
+    }
+    if (shared > 0 && (!best || shared > best.shared)) best = { path, shared };
+  }
+  return best?.path ?? null;
+}
+
+/**
+ * Apply a diff block to one file's content. Hunks for other files in the block are ignored;
+ * hunks that can't be placed are listed in `rejected` and leave the content untouched there.
  */
-export function applyDiff(originalContent: string, diff: string): string {
-  // This is a simplified implementation
-  // For production, use libraries like diff-match-patch or node-patch
+export function applyDiff(originalContent: string, diff: string, path?: string): PatchResult {
+  const fileDiffs = parseUnifiedDiff(diff, path);
+  const target =
+    (path && fileDiffs.find(file => [file.newPath, file.oldPath].some(p => p && matchDiffPath(p, [path])))) ||
+    fileDiffs[0];
 
-  const lines = originalContent.split('\n');
-  const diffLines = diff.split('\n');
+  if (!target) {
+    return { path: path ?? 'unknown', content: originalContent, created: false, deleted: false, hunks: [], rejected: [] };
+  }
+  return applyFileDiff(originalContent, target, path);
+}
 
-  // Parse diff to find changes
-  // This is a basic implementation - real diff application is more complex
-  console.warn('applyDiff is a simplified implementation. Use a proper diff library for production.');
+/**
+ * Later blocks for the same file: latest content, hunk reports appended
+ */
+function mergeResults(previous: PatchResult, next: PatchResult): PatchResult {
+  return {
+    ...next,
+    created: previous.created || next.created,
+    hunks: [...previous.hunks, ...next.hunks.map(hunk => ({ ...hunk, index: hunk.index + previous.hunks.length }))],
+    rejected: [...previous.rejected, ...next.rejected],
+  };
+}
 
-  // For now, just return original content with a warning comment
-  return `// TODO: Apply diff manually\n// ${diff}\n\n${originalContent}`;
+/**
+ * Apply every diff from a response to the given files, in order, so several blocks
+ * touching the same file build on each other. Returns one result per touched file;
+ * files the diffs reference but that weren't provided get all hunks rejected unless the
+ * diff creates them.
+ */
+export function applyDiffs(files: Array<{ path: string; content: string }>, diffs: GeneratedDiff[]): PatchResult[] {
+  const contents = new Map(files.map(file => [file.path, file.content]));
+  const results = new Map<string, PatchResult>();
+
+  for (const { diff, path: blockPath } of diffs) {
+    for (const fileDiff of parseUnifiedDiff(diff, blockPath)) {
+      const diffPath = fileDiff.newPath ?? fileDiff.oldPath ?? 'unknown';
+      const path = fileDiff.oldPath === null ? diffPath : matchDiffPath(diffPath, Array.from(contents.keys())) ?? diffPath;
+      const original = contents.get(path);
+
+      const result = original === undefined && fileDiff.oldPath !== null
+        ? rejectFileDiff(fileDiff, path, 'file not provided')
+        : applyFileDiff(original ?? '', fileDiff, path);
+      if (original !== undefined || result.created) contents.set(path, result.content);
+
+      const previous = results.get(path);
+      results.set(path, previous ? mergeResults(previous, result) : result);
+    }
+  }
+
+  return Array.from(results.values());
+}
+
+/**
+ * The diffs with only the hunks `keep` accepts, e.g. those approved in the review UI.
+ * Hunks are identified by block index, file index within the block (as parsed by
+ * parseUnifiedDiff) and hunk index within the file.
+ */
+export function selectHunks(
+  diffs: GeneratedDiff[],
+  keep: (block: number, file: number, hunk: number) => boolean
+): GeneratedDiff[] {
+  return diffs.flatMap((block, blockIndex) => {
+    const files = parseUnifiedDiff(block.diff, block.path)
+      .map((file, fileIndex) => ({ ...file, hunks: file.hunks.filter((_, hunkIndex) => keep(blockIndex, fileIndex, hunkIndex)) }))
+      .filter(file => file.hunks.length > 0);
+    return files.length > 0 ? [{ ...block, diff: files.map(formatFileDiff).join('') }] : [];
+  });
 }
@@ -12,6 +12,9 @@ export {
   buildAssistPrompt,
   extractDiffs,
   applyDiff,
+  applyDiffs,
+  matchDiffPath,
+  selectHunks,
 } from './assist';
 
 export {
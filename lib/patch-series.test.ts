@@ -0,0 +1,108 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { buildPatchSeries } from './patch-series';
+import { applyDiffs, extractDiffs } from './modes/assist';
+import { extractFiles } from './modes/full-generation';
+import { GeneratedFile } from './types';
+
+const DATE = new Date(0);
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'providers', 'fixtures', name), 'utf-8');
+}
+
+function subjects(mbox: string): string[] {
+  return mbox.match(/^Subject: .*$/gm) ?? [];
+}
+
+/** Text between the headers and the "---" before the diffstat */
+function body(mbox: string): string {
+  return mbox.split('\n\n').slice(1).join('\n\n').split('\n---\n')[0].trim();
+}
+
+describe('commit messages', () => {
+  const original: GeneratedFile = { path: 'X.java', content: 'a\nb\nc\n' };
+  const diff = '--- a/X.java\n+++ b/X.java\n@@\n a\n-b\n+B\n';
+
+  it('takes the subject from the first sentence and the body from the rest', () => {
+    const { mbox } = buildPatchSeries([{ path: 'X.java', diff, commentary: 'Capitalize b. It reads better.' }], [original], { date: DATE });
+    expect(subjects(mbox)).toEqual(['Subject: [PATCH] Capitalize b']);
+    expect(body(mbox)).toBe('It reads better.');
+  });
+
+  it('truncates long subjects with an ellipsis and continues them in the body', () => {
+    const sentence = 'Capitalize b so that the drive code reads the same way as the rest of the team code does today';
+    const { mbox } = buildPatchSeries([{ path: 'X.java', diff, commentary: `${sentence}. Second sentence.` }], [original], { date: DATE });
+    const [subject] = subjects(mbox);
+    expect(subject).toBe('Subject: [PATCH] Capitalize b so that the drive code reads the same way as the rest of...');
+    expect(subject.length - 'Subject: [PATCH] '.length).toBeLessThanOrEqual(72);
+    expect(body(mbox)).toBe('...the team code does today. Second sentence.');
+
+    const runOn = buildPatchSeries([{ path: 'X.java', diff, commentary: sentence.replace('of the', 'ofthe') }], [original], { date: DATE });
+    expect(subjects(runOn.mbox)).toEqual(['Subject: [PATCH] Capitalize b so that the drive code reads the same way as the rest...']);
+  });
+
+  it('names the files when there is no commentary', () => {
+    const { mbox } = buildPatchSeries([
+      { path: 'X.java', diff },
+      { path: 'N.java', diff: '--- /dev/null\n+++ b/N.java\n@@\n+x\n' },
+    ], [original], { date: DATE });
+    expect(subjects(mbox)).toEqual(['Subject: [PATCH 1/2] Update X.java', 'Subject: [PATCH 2/2] Add N.java']);
+    expect(mbox).toContain(' create mode 100644 N.java');
+  });
+
+  it('leaves out hunks that do not fit and notes them', () => {
+    const series = buildPatchSeries([{ path: 'X.java', diff: `${diff}@@\n-nope\n+yes\n` }], [original], { date: DATE });
+    expect(series).toMatchObject({ patches: 1, skippedHunks: 1 });
+    expect(series.mbox).toContain('1 hunk of this change did not fit the original files and is not included.');
+    expect(series.mbox).not.toContain('+yes');
+  });
+});
+
+describe('git am', () => {
+  let directory: string | null = null;
+
+  afterEach(() => {
+    if (directory) fs.rmSync(directory, { recursive: true, force: true });
+    directory = null;
+  });
+
+  function repository(files: GeneratedFile[]): string {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-series-'));
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(path.join(directory, file.path)), { recursive: true });
+      fs.writeFileSync(path.join(directory, file.path), file.content);
+    }
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: directory!, stdio: 'pipe' });
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@localhost');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Original');
+    return directory;
+  }
+
+  const files = extractFiles(fixture('full-generation.md')).filter(file => file.path.endsWith('.java'));
+  const diffs = extractDiffs(fixture('assist.md'));
+
+  it('replays the Assist fixture to the same result as applying it', () => {
+    const cwd = repository(files);
+    const series = buildPatchSeries(diffs, files, { date: DATE });
+    expect(series.patches).toBe(diffs.length);
+
+    execFileSync('git', ['am', '-q'], { cwd, input: series.mbox, stdio: 'pipe' });
+    const [expected] = applyDiffs(files, diffs);
+    expect(fs.readFileSync(path.join(cwd, expected.path), 'utf-8')).toBe(expected.content);
+    expect(execFileSync('git', ['rev-list', '--count', 'HEAD'], { cwd }).toString().trim()).toBe(String(diffs.length + 1));
+  });
+
+  it('produces patches git accepts without the original files', () => {
+    const cwd = repository(files);
+    const { mbox } = buildPatchSeries(diffs, [], { date: DATE });
+    expect(() => execFileSync('git', ['apply', '--check'], { cwd, input: mbox, stdio: 'pipe' })).not.toThrow();
+  });
+});
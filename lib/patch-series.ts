@@ -0,0 +1,229 @@
+/**
+ * Git Patch Series
+ * Turns Assist diffs into `git format-patch` output (an mbox) for `git am` or `git apply`:
+ * one patch per diff block, its subject taken from the block's commentary
+ */
+
+import { GeneratedDiff, GeneratedFile } from './types';
+import { applyDiffs } from './modes/assist';
+import { createUnifiedHunks, FileDiff, formatFileDiff, normalizeFileDiff, parseUnifiedDiff } from './patch';
+
+export const PATCH_AUTHOR = 'FTC Workbench <workbench@localhost>';
+
+const SUBJECT_MAX = 72;
+const BODY_WIDTH = 72;
+
+export interface PatchSeriesOptions {
+  author?: string;    // "Name <email>"
+  date?: Date;
+}
+
+export interface PatchSeries {
+  mbox: string;
+  patches: number;         // blocks that produced a patch
+  skippedHunks: number;    // hunks left out because they didn't fit the provided files
+}
+
+interface FileChange {
+  oldPath: string | null;  // null: created
+  newPath: string | null;  // null: deleted
+  hunks: string;           // "@@ ... @@" sections with exact headers
+}
+
+/**
+ * Changes one diff block makes. Files in `contents` get hunks regenerated from the
+ * patched result, so headers and context are exactly what git expects; files that
+ * weren't provided fall back to the model's hunks with recounted headers.
+ */
+function blockChanges(block: GeneratedDiff, contents: Map<string, string>): { changes: FileChange[]; skipped: number } {
+  const changes: FileChange[] = [];
+  let skipped = 0;
+
+  for (const fileDiff of parseUnifiedDiff(block.diff, block.path)) {
+    const files = Array.from(contents, ([path, content]) => ({ path, content }));
+    const [result] = applyDiffs(files, [{ path: block.path, diff: formatFileDiff(fileDiff) }]);
+    if (!result) continue;
+
+    if (result.rejected.length > 0 && result.rejected.every(hunk => hunk.reason === 'file not provided')) {
+      changes.push(modelChange(fileDiff));
+      continue;
+    }
+
+    skipped += result.rejected.length;
+    if (result.rejected.length === result.hunks.length) continue;
+
+    const before = contents.get(result.path) ?? null;
+    const after = result.deleted ? null : result.content;
+    const hunks = createUnifiedHunks(before, after);
+    if (!hunks) continue;
+
+    changes.push({ oldPath: before === null ? null : result.path, newPath: after === null ? null : result.path, hunks });
+    if (after === null) contents.delete(result.path);
+    else contents.set(result.path, after);
+  }
+
+  return { changes, skipped };
+}
+
+function modelChange(fileDiff: FileDiff): FileChange {
+  const normalized = normalizeFileDiff(fileDiff);
+  return {
+    oldPath: normalized.oldPath,
+    newPath: normalized.newPath,
+    hunks: normalized.hunks.map(hunk => [hunk.header, ...hunk.lines].join('\n') + '\n').join(''),
+  };
+}
+
+function changePath(change: FileChange): string {
+  return (change.newPath ?? change.oldPath)!;
+}
+
+function countLines(hunks: string, prefix: '+' | '-'): number {
+  return hunks.split('\n').filter(line => line[0] === prefix).length;
+}
+
+/**
+ * " path | 3 ++-" lines plus git's summary line
+ */
+function diffstat(changes: FileChange[]): string {
+  const stats = changes.map(change => ({
+    path: changePath(change),
+    added: countLines(change.hunks, '+'),
+    removed: countLines(change.hunks, '-'),
+  }));
+  const width = Math.max(...stats.map(stat => stat.path.length));
+  const largest = Math.max(...stats.map(stat => stat.added + stat.removed));
+  const scale = largest > 50 ? 50 / largest : 1;
+
+  const lines = stats.map(({ path, added, removed }) => {
+    const graph = '+'.repeat(Math.ceil(added * scale)) + '-'.repeat(Math.ceil(removed * scale));
+    return ` ${path.padEnd(width)} | ${added + removed} ${graph}`.trimEnd();
+  });
+
+  const added = stats.reduce((sum, stat) => sum + stat.added, 0);
+  const removed = stats.reduce((sum, stat) => sum + stat.removed, 0);
+  const summary = [
+    `${changes.length} file${changes.length !== 1 ? 's' : ''} changed`,
+    (added > 0 || removed === 0) && `${added} insertion${added !== 1 ? 's' : ''}(+)`,
+    removed > 0 && `${removed} deletion${removed !== 1 ? 's' : ''}(-)`,
+  ].filter(Boolean).join(', ');
+
+  const modes = changes.flatMap(change =>
+    change.oldPath === null
+      ? [` create mode 100644 ${changePath(change)}`]
+      : change.newPath === null
+        ? [` delete mode 100644 ${changePath(change)}`]
+        : []
+  );
+
+  return [...lines, ` ${summary}`, ...modes].join('\n');
+}
+
+function gitDiff(change: FileChange): string {
+  const path = changePath(change);
+  const oldPath = change.oldPath ?? path;
+  const newPath = change.newPath ?? path;
+  return [
+    `diff --git a/${oldPath} b/${newPath}`,
+    ...(change.oldPath === null ? ['new file mode 100644'] : []),
+    ...(change.newPath === null ? ['deleted file mode 100644'] : []),
+    `--- ${change.oldPath === null ? '/dev/null' : `a/${oldPath}`}`,
+    `+++ ${change.newPath === null ? '/dev/null' : `b/${newPath}`}`,
+  ].join('\n') + '\n' + change.hunks;
+}
+
+function wrap(text: string, width: number): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+/**
+ * Subject line cut at a word boundary, marked with "..." (ASCII keeps the header 7-bit);
+ * `kept` is how many characters of `text` it holds
+ */
+function truncateSubject(text: string): { subject: string; kept: number } {
+  if (text.length <= SUBJECT_MAX) return { subject: text, kept: text.length };
+  // One character past the limit shows whether the last word ends there or runs on
+  const cut = text.slice(0, SUBJECT_MAX - 2).replace(/\s*\S*$/, '') || text.slice(0, SUBJECT_MAX - 3);
+  return { subject: `${cut}...`, kept: cut.length };
+}
+
+/**
+ * Subject from the commentary's first sentence; the body continues from there: the part of
+ * the sentence that didn't fit (after "..."), then the rest of the commentary
+ */
+function commitMessage(commentary: string | undefined, changes: FileChange[]): { subject: string; body: string } {
+  const text = commentary?.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    const verb = changes.every(c => c.oldPath === null) ? 'Add' : changes.every(c => c.newPath === null) ? 'Remove' : 'Update';
+    const names = changes.map(change => changePath(change).split('/').pop());
+    return { subject: truncateSubject(`${verb} ${names.join(', ')}`).subject, body: '' };
+  }
+
+  const first = text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? text;
+  const sentence = first.replace(/[.!?]$/, '');
+  const { subject, kept } = truncateSubject(sentence);
+  const body = [
+    kept < sentence.length ? `...${first.slice(kept).trimStart()}` : '',
+    text.slice(first.length).trim(),
+  ].filter(Boolean).join(' ');
+  return { subject, body: wrap(body, BODY_WIDTH) };
+}
+
+/**
+ * Build the series. Blocks are applied in order, so later patches build on earlier ones
+ * exactly as `git am` will replay them; blocks that change nothing are left out.
+ */
+export function buildPatchSeries(
+  diffs: GeneratedDiff[],
+  originals: GeneratedFile[] = [],
+  options: PatchSeriesOptions = {}
+): PatchSeries {
+  const contents = new Map(originals.map(file => [file.path, file.content]));
+  const author = options.author ?? PATCH_AUTHOR;
+  const date = (options.date ?? new Date()).toUTCString().replace('GMT', '+0000');
+
+  let skippedHunks = 0;
+  const patches: Array<{ message: { subject: string; body: string }; changes: FileChange[]; skipped: number }> = [];
+  for (const block of diffs) {
+    const { changes, skipped } = blockChanges(block, contents);
+    skippedHunks += skipped;
+    if (changes.length > 0) patches.push({ message: commitMessage(block.commentary, changes), changes, skipped });
+  }
+
+  const mbox = patches.map(({ message, changes, skipped }, index) => {
+    const number = patches.length > 1 ? ` ${index + 1}/${patches.length}` : '';
+    const note = skipped > 0
+      ? `${skipped} hunk${skipped !== 1 ? 's' : ''} of this change did not fit the original files and ${skipped !== 1 ? 'are' : 'is'} not included.`
+      : '';
+    // Body lines that look like an mbox separator are escaped, as git does
+    const body = [message.body, note].filter(Boolean).join('\n\n').replace(/^From /gm, '>From ');
+
+    return [
+      'From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001',
+      `From: ${author}`,
+      `Date: ${date}`,
+      `Subject: [PATCH${number}] ${message.subject}`,
+      '',
+      ...(body ? [body, ''] : []),
+      '---',
+      diffstat(changes),
+      '',
+      changes.map(gitDiff).join('') + '-- ',
+      'FTC Workbench',
+      '',
+    ].join('\n');
+  }).join('\n');
+
+  return { mbox, patches: patches.length, skippedHunks };
+}
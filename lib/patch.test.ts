@@ -0,0 +1,157 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+import {
+  applyFileDiff,
+  createUnifiedHunks,
+  formatFileDiff,
+  normalizeFileDiff,
+  parseUnifiedDiff,
+  rejectFileDiff,
+} from './patch';
+import { applyDiffs, extractDiffs } from './modes/assist';
+import { extractFiles } from './modes/full-generation';
+
+const ORIGINAL = 'a\nb\nc\nd\ne\nf\ng\n';
+const CHANGE_D = '--- a/X.java\n+++ b/X.java\n@@ -3,3 +3,3 @@\n c\n-d\n+D\n e\n';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'providers', 'fixtures', name), 'utf-8');
+}
+
+describe('parseUnifiedDiff', () => {
+  it('reads paths, hunk ranges and lines', () => {
+    expect(parseUnifiedDiff(CHANGE_D)).toEqual([{
+      oldPath: 'X.java',
+      newPath: 'X.java',
+      hunks: [{ header: '@@ -3,3 +3,3 @@', oldStart: 3, newStart: 3, lines: [' c', '-d', '+D', ' e'] }],
+    }]);
+  });
+
+  it('treats /dev/null as a created or deleted file', () => {
+    const [created] = parseUnifiedDiff('--- /dev/null\n+++ b/N.java\n@@ -0,0 +1,2 @@\n+x\n+y\n');
+    expect(created.oldPath).toBeNull();
+    expect(created.newPath).toBe('N.java');
+
+    const [deleted] = parseUnifiedDiff('--- a/N.java\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-x\n-y\n');
+    expect(deleted.newPath).toBeNull();
+  });
+
+  it('accepts bare @@ headers and attributes headerless hunks to the default path', () => {
+    const [diff] = parseUnifiedDiff('@@\n c\n-d\n+D\n', 'Fallback.java');
+    expect(diff.newPath).toBe('Fallback.java');
+    expect(diff.hunks[0]).toMatchObject({ header: '@@', oldStart: 0, lines: [' c', '-d', '+D'] });
+  });
+
+  it('splits multi-file diffs', () => {
+    const diffs = parseUnifiedDiff(`${CHANGE_D}--- a/Y.java\n+++ b/Y.java\n@@ -1 +1 @@\n-a\n+A\n`);
+    expect(diffs.map(diff => diff.newPath)).toEqual(['X.java', 'Y.java']);
+  });
+});
+
+describe('applyFileDiff', () => {
+  it('applies a hunk where the header says', () => {
+    const result = applyFileDiff(ORIGINAL, parseUnifiedDiff(CHANGE_D)[0]);
+    expect(result.content).toBe('a\nb\nc\nD\ne\nf\ng\n');
+    expect(result.hunks).toEqual([expect.objectContaining({ status: 'applied', line: 3, offset: 0, fuzz: 0, whitespace: false })]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('finds hunks by context when the line numbers are off', () => {
+    const result = applyFileDiff(`x\ny\n${ORIGINAL}`, parseUnifiedDiff(CHANGE_D)[0]);
+    expect(result.content).toBe('x\ny\na\nb\nc\nD\ne\nf\ng\n');
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', line: 5, offset: 2 });
+  });
+
+  it('matches ignoring whitespace and keeps the file\'s indentation', () => {
+    const result = applyFileDiff(ORIGINAL.replace('c', '  c'), parseUnifiedDiff(CHANGE_D)[0]);
+    expect(result.content).toBe('a\nb\n  c\nD\ne\nf\ng\n');
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', whitespace: true });
+  });
+
+  it('drops mismatched context lines with fuzz', () => {
+    const result = applyFileDiff(ORIGINAL, parseUnifiedDiff('@@\n c\n-d\n+D\n wrong\n')[0]);
+    expect(result.content).toBe('a\nb\nc\nD\ne\nf\ng\n');
+    expect(result.hunks[0]).toMatchObject({ status: 'applied', fuzz: 1 });
+  });
+
+  it('rejects hunks that do not fit and leaves the file unchanged', () => {
+    const result = applyFileDiff(ORIGINAL, parseUnifiedDiff('@@ -1 +1 @@\n-zzz\n+y\n')[0]);
+    expect(result.content).toBe(ORIGINAL);
+    expect(result.hunks[0]).toMatchObject({ status: 'rejected', reason: 'removed lines not found in the file' });
+    expect(result.rejected).toEqual([{ header: '@@ -1 +1 @@', text: '@@ -1 +1 @@\n-zzz\n+y', reason: 'removed lines not found in the file' }]);
+  });
+
+  it('applies the hunks that fit when others are rejected', () => {
+    const diff = parseUnifiedDiff(`${CHANGE_D}@@ -6,2 +6,2 @@\n-nope\n+yes\n`)[0];
+    const result = applyFileDiff(ORIGINAL, diff);
+    expect(result.content).toBe('a\nb\nc\nD\ne\nf\ng\n');
+    expect(result.hunks.map(hunk => hunk.status)).toEqual(['applied', 'rejected']);
+  });
+
+  it('creates and deletes files', () => {
+    const created = applyFileDiff('', parseUnifiedDiff('--- /dev/null\n+++ b/N.java\n@@ -0,0 +1,2 @@\n+x\n+y\n')[0]);
+    expect(created).toMatchObject({ content: 'x\ny\n', created: true, deleted: false });
+
+    const deleted = applyFileDiff('x\ny\n', parseUnifiedDiff('--- a/N.java\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-x\n-y\n')[0]);
+    expect(deleted).toMatchObject({ content: '', created: false, deleted: true });
+  });
+
+  it('keeps CRLF line endings', () => {
+    const result = applyFileDiff('a\r\nb\r\n', parseUnifiedDiff('@@ -1,2 +1,2 @@\n a\n-b\n+B\n')[0]);
+    expect(result.content).toBe('a\r\nB\r\n');
+  });
+});
+
+describe('rejectFileDiff', () => {
+  it('rejects every hunk with the reason', () => {
+    const result = rejectFileDiff(parseUnifiedDiff(CHANGE_D)[0], 'X.java', 'file not provided');
+    expect(result.hunks).toEqual([expect.objectContaining({ status: 'rejected', reason: 'file not provided' })]);
+    expect(result.rejected[0].text).toBe('@@ -3,3 +3,3 @@\n c\n-d\n+D\n e');
+  });
+});
+
+describe('round trips', () => {
+  it('parses formatted diffs back to the same file diffs', () => {
+    const text = `${CHANGE_D}--- /dev/null\n+++ b/N.java\n@@ -0,0 +1,2 @@\n+x\n+y\n`;
+    const diffs = parseUnifiedDiff(text);
+    expect(diffs.map(formatFileDiff).join('')).toBe(text);
+    expect(parseUnifiedDiff(diffs.map(formatFileDiff).join(''))).toEqual(diffs);
+  });
+
+  it('recomputes hunk headers from the hunk bodies', () => {
+    const [diff] = parseUnifiedDiff('--- a/X.java\n+++ b/X.java\n@@ -3 +3 @@\n c\n-d\n+D\n+E\n e\n@@ -6 +6 @@\n f\n+F\n');
+    expect(normalizeFileDiff(diff).hunks.map(hunk => hunk.header)).toEqual(['@@ -3,3 +3,4 @@', '@@ -6,1 +7,2 @@']);
+
+    const [created] = parseUnifiedDiff('--- /dev/null\n+++ b/N.java\n@@\n+x\n+y\n');
+    expect(normalizeFileDiff(created).hunks[0].header).toBe('@@ -0,0 +1,2 @@');
+  });
+
+  it('creates hunks that turn one version into the other', () => {
+    const before = `${ORIGINAL}h\ni\nj\nk\nl\n`;
+    const after = before.replace('b\n', 'B\n').replace('k\n', 'k\nK\n');
+    const hunks = createUnifiedHunks(before, after);
+    expect(hunks.match(/^@@.*$/gm)).toEqual(['@@ -1,5 +1,5 @@', '@@ -9,4 +9,5 @@']);
+    expect(applyFileDiff(before, parseUnifiedDiff(`--- a/X.java\n+++ b/X.java\n${hunks}`)[0]).content).toBe(after);
+    expect(createUnifiedHunks(before, before)).toBe('');
+  });
+
+  it('marks a missing final newline and handles created and deleted files', () => {
+    expect(createUnifiedHunks('a\n', 'a')).toBe('@@ -1,1 +1,1 @@\n-a\n+a\n\\ No newline at end of file\n');
+    expect(createUnifiedHunks(null, 'x\n')).toBe('@@ -0,0 +1,1 @@\n+x\n');
+    expect(createUnifiedHunks('x\n', null)).toBe('@@ -1,1 +0,0 @@\n-x\n');
+  });
+});
+
+describe('Assist fixture', () => {
+  it('applies every hunk of the mock Assist diffs to the mock full-generation file', () => {
+    const files = extractFiles(fixture('full-generation.md')).filter(file => file.path.endsWith('.java'));
+    const [result] = applyDiffs(files, extractDiffs(fixture('assist.md')));
+    expect(result.path).toBe(files[0].path);
+    expect(result.rejected).toEqual([]);
+    expect(result.hunks.length).toBeGreaterThan(0);
+    expect(result.hunks.every(hunk => hunk.status === 'applied')).toBe(true);
+    expect(result.content).not.toBe(files[0].content);
+  });
+});
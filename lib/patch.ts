@@ -0,0 +1,392 @@
+/**
+ * Unified Diff Engine
+ * Parses model-written unified diffs and applies them the way `patch` does: hunks are
+ * located by their context (not trusted line numbers), with offset and fuzz tolerance,
+ * and hunks that can't be placed are rejected instead of corrupting the file
+ */
+
+export interface DiffHunk {
+  header: string;     // the "@@ ... @@" line as written
+  oldStart: number;   // 1-based; 0 when the header carries no numbers
+  newStart: number;
+  lines: string[];    // each starts with ' ', '-' or '+'
+}
+
+export interface FileDiff {
+  oldPath: string | null;   // null for a new file (--- /dev/null)
+  newPath: string | null;   // null for a deleted file
+  hunks: DiffHunk[];
+}
+
+export interface HunkResult {
+  index: number;            // position in the file's hunk list
+  header: string;
+  status: 'applied' | 'rejected';
+  line?: number;            // 1-based line in the result where the hunk landed
+  offset?: number;          // lines away from where the header said
+  fuzz?: number;            // context lines ignored at each end to make it fit
+  whitespace?: boolean;     // matched only after ignoring whitespace differences
+  reason?: string;          // why it was rejected
+}
+
+export interface RejectedHunk {
+  header: string;
+  text: string;             // the hunk as a .rej would show it
+  reason: string;
+}
+
+export interface PatchResult {
+  path: string;
+  content: string;          // patched content (original where every hunk was rejected)
+  created: boolean;
+  deleted: boolean;
+  hunks: HunkResult[];
+  rejected: RejectedHunk[];
+}
+
+const MAX_FUZZ = 2;
+
+// Any line starting with "@@" opens a hunk (body lines always carry a prefix); numbers are optional
+const HUNK_RANGES = /^@@\s*-(\d+)(?:,\d+)?(?:\s+\+(\d+)(?:,\d+)?)?/;
+
+function stripPrefix(path: string): string | null {
+  const cleaned = path.trim().split('\t')[0].replace(/^"|"$/g, '');
+  if (cleaned === '/dev/null') return null;
+  return cleaned.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse one or more file diffs. Lenient about what models get wrong: wrong or missing
+ * hunk line counts, bare "@@" headers, and context lines that lost their leading space.
+ * Hunks without a ---/+++ header are attributed to `defaultPath`.
+ */
+export function parseUnifiedDiff(text: string, defaultPath = 'unknown'): FileDiff[] {
+  const files: FileDiff[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let blankLines = 0; // empty lines are held back: context only if more hunk lines follow
+
+  const closeHunk = () => {
+    if (hunk && hunk.lines.some(line => line[0] !== ' ')) file?.hunks.push(hunk);
+    hunk = null;
+    blankLines = 0;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      closeHunk();
+      file = { oldPath: stripPrefix(line.slice(4)), newPath: stripPrefix(lines[i + 1].slice(4)), hunks: [] };
+      files.push(file);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      const ranges = line.match(HUNK_RANGES);
+      closeHunk();
+      if (!file) {
+        file = { oldPath: defaultPath, newPath: defaultPath, hunks: [] };
+        files.push(file);
+      }
+      hunk = {
+        header: line,
+        oldStart: ranges ? Number(ranges[1]) : 0,
+        newStart: ranges?.[2] ? Number(ranges[2]) : 0,
+        lines: [],
+      };
+      continue;
+    }
+
+    if (!hunk) continue; // "diff --git", "index ...", prose between files
+
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    if (line.startsWith('diff --git ') || line.startsWith('index ')) {
+      closeHunk();
+      continue;
+    }
+
+    if (line === '') {
+      blankLines++;
+      continue;
+    }
+    for (; blankLines > 0; blankLines--) hunk.lines.push(' ');
+    hunk.lines.push(/^[ +-]/.test(line) ? line : ` ${line}`);
+  }
+
+  closeHunk();
+  return files.filter(f => f.hunks.length > 0);
+}
+
+function normalizeWhitespace(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Positions where `pattern` matches `lines`, nearest to `expected` first
+ */
+function findMatches(lines: string[], pattern: string[], expected: number, loose: boolean, blocked: (start: number) => boolean): number[] {
+  const same = loose
+    ? (a: string, b: string) => normalizeWhitespace(a) === normalizeWhitespace(b)
+    : (a: string, b: string) => a === b;
+
+  const matches: number[] = [];
+  for (let start = 0; start + pattern.length <= lines.length; start++) {
+    if (blocked(start)) continue;
+    if (pattern.every((line, i) => same(lines[start + i], line))) matches.push(start);
+  }
+  return matches.sort((a, b) => Math.abs(a - expected) - Math.abs(b - expected));
+}
+
+function hunkText(hunk: DiffHunk): string {
+  return [hunk.header, ...hunk.lines].join('\n');
+}
+
+/**
+ * Apply the hunks of one file diff to its original content
+ */
+export function applyFileDiff(original: string, diff: FileDiff, path = diff.newPath ?? diff.oldPath ?? 'unknown'): PatchResult {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const endsWithNewline = original === '' || /\n$/.test(original);
+  let lines = original === '' ? [] : original.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+  const hunks: HunkResult[] = [];
+  const rejected: RejectedHunk[] = [];
+  const applied: Array<{ start: number; end: number }> = []; // regions already written, in result lines
+  let offset = 0; // how far applied hunks have shifted the original numbering
+
+  diff.hunks.forEach((hunk, index) => {
+    const expected = Math.max(0, (hunk.oldStart || 1) - 1 + offset);
+    const oldLines = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+
+    // Pure insertion: nothing to match against, so the header's line number is all there is
+    if (oldLines.length === 0) {
+      if (hunk.oldStart === 0 && lines.length > 0 && !/^@@ -0,0 /.test(hunk.header)) {
+        const reason = 'no context or line number to place it';
+        hunks.push({ index, header: hunk.header, status: 'rejected', reason });
+        rejected.push({ header: hunk.header, text: hunkText(hunk), reason });
+        return;
+      }
+      const at = Math.min(hunk.oldStart === 0 ? 0 : expected + 1, lines.length);
+      const added = hunk.lines.map(line => line.slice(1));
+      lines = [...lines.slice(0, at), ...added, ...lines.slice(at)];
+      applied.push({ start: at, end: at + added.length });
+      offset += added.length;
+      hunks.push({ index, header: hunk.header, status: 'applied', line: at + 1, offset: 0 });
+      return;
+    }
+
+    const overlaps = (start: number, length: number) =>
+      applied.some(region => start < region.end && start + length > region.start);
+
+    // Try exact, then whitespace-insensitive, then with context trimmed from both ends
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const { body, leading } = trimContext(hunk.lines, fuzz);
+      if (!body) break;
+
+      const pattern = body.filter(line => line[0] !== '+').map(line => line.slice(1));
+      for (const loose of [false, true]) {
+        const [start] = findMatches(lines, pattern, expected + leading, loose, s => overlaps(s, pattern.length));
+        if (start === undefined) continue;
+
+        // Context comes from the file (keeps its real indentation); only +/- come from the diff
+        const replacement: string[] = [];
+        let cursor = start;
+        for (const line of body) {
+          if (line[0] === ' ') replacement.push(lines[cursor++]);
+          else if (line[0] === '-') cursor++;
+          else replacement.push(line.slice(1));
+        }
+
+        lines = [...lines.slice(0, start), ...replacement, ...lines.slice(start + pattern.length)];
+        const delta = replacement.length - pattern.length;
+        for (const region of applied) {
+          if (region.start >= start) {
+            region.start += delta;
+            region.end += delta;
+          }
+        }
+        applied.push({ start, end: start + replacement.length });
+        offset += delta;
+
+        hunks.push({
+          index,
+          header: hunk.header,
+          status: 'applied',
+          line: start + 1,
+          offset: hunk.oldStart ? start - leading - expected : 0,
+          fuzz,
+          whitespace: loose,
+        });
+        return;
+      }
+    }
+
+    const reason = hasContext(hunk)
+      ? 'context not found in the file'
+      : 'removed lines not found in the file';
+    hunks.push({ index, header: hunk.header, status: 'rejected', reason });
+    rejected.push({ header: hunk.header, text: hunkText(hunk), reason });
+  });
+
+  const created = diff.oldPath === null && diff.newPath !== null;
+  const deleted = diff.newPath === null && diff.oldPath !== null && rejected.length === 0;
+  const content = deleted ? '' : lines.join(eol) + (endsWithNewline && lines.length > 0 ? eol : '');
+
+  return { path, content, created, deleted, hunks, rejected };
+}
+
+/**
+ * Write a file diff back out as unified diff text (hunk headers kept as the model wrote them)
+ */
+export function formatFileDiff(diff: FileDiff): string {
+  const oldPath = diff.oldPath === null ? '/dev/null' : `a/${diff.oldPath}`;
+  const newPath = diff.newPath === null ? '/dev/null' : `b/${diff.newPath}`;
+  return [`--- ${oldPath}`, `+++ ${newPath}`, ...diff.hunks.map(hunkText)].join('\n') + '\n';
+}
+
+/**
+ * Result for a diff that can't be applied at all (e.g. its file wasn't provided)
+ */
+export function rejectFileDiff(diff: FileDiff, path: string, reason: string): PatchResult {
+  return {
+    path,
+    content: '',
+    created: false,
+    deleted: false,
+    hunks: diff.hunks.map((hunk, index) => ({ index, header: hunk.header, status: 'rejected', reason })),
+    rejected: diff.hunks.map(hunk => ({ header: hunk.header, text: hunkText(hunk), reason })),
+  };
+}
+
+/**
+ * Same diff with hunk headers recomputed from the hunk bodies, for tools that trust them
+ * (git apply). Hunks are assumed to be in file order; missing start lines default to 1.
+ */
+export function normalizeFileDiff(diff: FileDiff): FileDiff {
+  let delta = 0;
+  const hunks = diff.hunks.map(hunk => {
+    const oldCount = hunk.lines.filter(line => line[0] !== '+').length;
+    const newCount = hunk.lines.filter(line => line[0] !== '-').length;
+    const oldStart = diff.oldPath === null ? 0 : oldCount === 0 ? hunk.oldStart : Math.max(1, hunk.oldStart);
+    const newStart = diff.newPath === null ? 0 : oldStart + delta + (oldCount === 0 ? 1 : 0);
+    delta += newCount - oldCount;
+    return { ...hunk, header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, oldStart, newStart };
+  });
+  return { ...diff, hunks };
+}
+
+type LineOp = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line diff (longest common subsequence) of the region between a common prefix and suffix
+ */
+function diffLines(a: string[], b: string[]): LineOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const x = a.slice(prefix, a.length - suffix);
+  const y = b.slice(prefix, b.length - suffix);
+  const width = y.length + 1;
+  const lcs = new Uint32Array((x.length + 1) * width);
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = x[i] === y[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = a.slice(0, prefix).map(line => ({ op: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      ops.push({ op: ' ', line: x[i++] });
+      j++;
+    } else if (i < x.length && (j === y.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ op: '-', line: x[i++] });
+    } else {
+      ops.push({ op: '+', line: y[j++] });
+    }
+  }
+  return ops.concat(a.slice(a.length - suffix).map(line => ({ op: ' ' as const, line })));
+}
+
+/** Lines with their terminators, so a missing final newline shows up as a change */
+function splitKeepingNewlines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Unified diff between two versions of a file, with exact hunk headers and `context`
+ * lines around each change. `before`/`after` null mean the file is created/deleted.
+ * Returns the hunks only (no ---/+++ lines), or '' when nothing changed.
+ */
+export function createUnifiedHunks(before: string | null, after: string | null, context = 3): string {
+  const ops = diffLines(splitKeepingNewlines(before ?? ''), splitKeepingNewlines(after ?? ''));
+  const changed = ops.map((op, index) => (op.op !== ' ' ? index : -1)).filter(index => index >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context would touch into one hunk
+  const groups: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) last[1] = index;
+    else groups.push([index, index]);
+  }
+
+  // Line numbers at each op index, 1-based
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.op !== '+') o++;
+    if (op.op !== '-') n++;
+  }
+
+  let output = '';
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - context);
+    const end = Math.min(ops.length - 1, last + context);
+    const slice = ops.slice(start, end + 1);
+    const oldCount = slice.filter(op => op.op !== '+').length;
+    const newCount = slice.filter(op => op.op !== '-').length;
+    const oldStart = oldCount === 0 ? oldLine[start] - 1 : oldLine[start];
+    const newStart = newCount === 0 ? newLine[start] - 1 : newLine[start];
+
+    output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    for (const { op, line } of slice) {
+      output += line.endsWith('\n') ? `${op}${line}` : `${op}${line}\n\\ No newline at end of file\n`;
+    }
+  }
+  return output;
+}
+
+function hasContext(hunk: DiffHunk): boolean {
+  return hunk.lines.some(line => line[0] === ' ');
+}
+
+/**
+ * Drop up to `fuzz` context lines from each end of a hunk, as patch's fuzz factor does.
+ * Never drops a change line; returns null when nothing is left to trim at this level.
+ */
+function trimContext(lines: string[], fuzz: number): { body: string[] | null; leading: number } {
+  if (fuzz === 0) return { body: lines, leading: 0 };
+
+  let leading = 0;
+  while (leading < fuzz && lines[leading]?.[0] === ' ') leading++;
+  let trailing = 0;
+  while (trailing < fuzz && lines[lines.length - 1 - trailing]?.[0] === ' ') trailing++;
+
+  if (leading + trailing === 0) return { body: null, leading: 0 };
+  const body = lines.slice(leading, lines.length - trailing);
+  return { body: body.some(line => line[0] === '-' || line[0] === ' ') ? body : null, leading };
+}
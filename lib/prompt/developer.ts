@@ -21,20 +21,51 @@ app/
 components/
   ModeToggle.tsx
   RobotConfigForm.tsx
+  RetrievalSettingsForm.tsx
   OutputSections.tsx
+  SourcesPanel.tsx
+  AttachedFilesPanel.tsx
+  PatchResultsPanel.tsx
+  DiffViewer.tsx
   FileDownloadBar.tsx
 lib/
+  providers/
+    index.ts           // LLMProvider registry
+    anthropic.ts       // Claude
+    openai.ts          // OpenAI + OpenAI-compatible base URLs
+    mock.ts            // Offline fixture replay
+    continuation.ts    // Resume replies cut off at max_tokens
+    errors.ts          // Classify provider errors
+    retry.ts           // Backoff retries before output
   prompt/
     system.ts          // SYSTEM prompt for AI
     developer.ts       // This file
   rag/
     query.ts           // RAG retrieval logic
+    bm25.ts            // BM25 inverted index
+    chunking.ts        // Structural chunkers
+    vector-store.ts    // File-backed vector store
+    fusion.ts          // Reciprocal rank fusion (BM25 + embeddings)
+    intents.ts         // Vendor intent classifier
+    rerank.ts          // Second-stage rerankers
+    context.ts         // Prompt context assembly
     ingest.ts          // Document ingestion
     types.ts           // Type definitions
+  export/
+    gradle.ts          // Gradle snippet parsing + merging into build files
+    gradle-libraries.json // Maven repos/artifacts per library (Road Runner, Pedro, ...)
+    project.ts         // Generated files -> buildable FtcRobotController zip
   vendors/
     limelight.ts       // Limelight USB interface
     photonvision.ts    // PhotonVision socket client
   types.ts             // Shared types
+  models.ts            // Provider info, default models + context windows
+  stream.ts            // SSE event encoding/parsing
+  patch.ts             // Unified-diff parser + patch engine
+  patch-series.ts      // Diffs -> git format-patch mbox
+  usage.ts             // Token/cost totals
+  errors.ts            // Error kinds for the UI
+  logger.ts            // Server logging + redaction
 app/api/
   claude/
     route.ts           // Edge: streams AI responses
@@ -54,11 +85,13 @@ styles/
 - Output: Array of { path: string, content: string }
 
 ### Assist
-- Receive file references + specific regions
+- Receive the attached files (existingFiles: .java/.kt, within ASSIST_FILE_LIMITS) + the request
 - Output unified diffs only (--- before / +++ after)
 - Brief commentary (1-2 sentences)
 - 60-second test routine
 - Output: Array of { path: string, diff: string }
+- applyDiffs (lib/patch.ts engine) patches the originals; unplaceable hunks are reported as rejected
+- Server sends the patched files as \`files\` and per-hunk results as \`patches\`
 
 ### Co-Pilot
 - Output step-by-step implementation plan (3-6 steps)
@@ -109,6 +142,10 @@ Sends selected mode to API
 Form inputs for all robotConfig fields
 Collapsible sections for framework toggles
 
+### RetrievalSettingsForm
+Season filter (auto / all / specific season, down-weight or exclude)
+Per-source weight presets and overrides sent as \`retrieval\`
+
 ### OutputSections
 Four panels (A-D) rendering markdown:
 - A) Answer
@@ -116,10 +153,27 @@ Four panels (A-D) rendering markdown:
 - C) Test & Validation (checklist)
 - D) Failure Modes & Fixes
 
+### SourcesPanel
+Collapsible list under each assistant message
+Links every retrieved source by its [n] citation, with line range, priority and score
+
+### AttachedFilesPanel
+Assist only: attach files or a whole folder, per-file checkboxes
+Enforces per-file, total and count limits before sending
+
+### PatchResultsPanel
+Collapsible list under Assist answers: hunks applied per file, rejected hunks with reasons
+
+### DiffViewer
+Assist review: each GeneratedDiff side by side (Java/Kotlin highlighting) with its commentary
+Per-hunk Accept / Reject; accepted hunks (selectHunks + applyDiffs) become the FileDownloadBar files
+
 ### FileDownloadBar
 "Download All" button
 Calls /api/files with code array
 Returns .zip download
+Assist: "Download .patch" sends the accepted diffs + originals instead
+"Download Project" sends { files, format: 'project' } for a full FtcRobotController zip
 
 ## API Routes
 
@@ -128,12 +182,16 @@ Returns .zip download
 - Retrieves relevant docs via RAG
 - Constructs system prompt + context
 - Streams AI response
-- Output: ReadableStream (SSE format)
+- Output: Server-Sent Events (StreamResponse): retrieval, sources, delta, usage, files, done | error
 
 ### /api/files/route.ts (Node)
-- Input: { files: Array<{ path: string, content: string }> }
-- Creates zip archive
-- Output: Blob download
+- Input: { files: Array<{ path: string, content: string }> } or { diffs: GeneratedDiff[], originals? }
+- Creates zip archive, or for diffs a git format-patch series (buildPatchSeries)
+- Patch hunks are regenerated from the patched originals so git am / git apply accept them
+- format: 'project' lays the files into the FtcRobotController skeleton (buildProjectArchive):
+  sources placed by package under TeamCode, GRADLE_* snippets merged into build.dependencies.gradle /
+  TeamCode/build.gradle, maven repos + artifacts added for imported libraries; 503 if the SDK archive is unavailable
+- Output: Blob download (.zip or .patch)
 
 ## Environment Variables
 - ANTHROPIC_API_KEY or OPENAI_API_KEY
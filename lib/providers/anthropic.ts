@@ -0,0 +1,66 @@
+/**
+ * Anthropic Provider
+ * Claude models through the Messages API
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { createLogger } from '../logger';
+import { GenerationRequest, GenerationResult, LLMProvider } from './types';
+
+const log = createLogger('Anthropic');
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = 'anthropic';
+  readonly defaultMaxTokens = 8192;
+  readonly supportsPrefill = true;
+  private client: Anthropic;
+
+  constructor(apiKey: string, options: { timeout?: number; maxRetries?: number } = {}) {
+    this.client = new Anthropic({ apiKey, ...options });
+  }
+
+  private params(request: GenerationRequest) {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens ?? this.defaultMaxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: request.messages,
+    };
+  }
+
+  async stream(request: GenerationRequest, onDelta: (text: string) => void): Promise<GenerationResult> {
+    log.debug('Sending request', { model: request.model, maxTokens: request.maxTokens ?? this.defaultMaxTokens });
+
+    const stream = this.client.messages.stream(this.params(request), { signal: request.signal });
+
+    let text = '';
+    for await (const chunk of stream) {
+      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+        text += chunk.delta.text;
+        onDelta(chunk.delta.text);
+      }
+    }
+
+    const final = await stream.finalMessage();
+    log.debug('Stream completed');
+
+    return {
+      text,
+      stopReason: final.stop_reason ?? undefined,
+      truncated: final.stop_reason === 'max_tokens',
+      usage: { inputTokens: final.usage.input_tokens, outputTokens: final.usage.output_tokens },
+    };
+  }
+
+  async complete(request: GenerationRequest): Promise<GenerationResult> {
+    const response = await this.client.messages.create(this.params(request), { signal: request.signal });
+
+    return {
+      text: response.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+      stopReason: response.stop_reason ?? undefined,
+      truncated: response.stop_reason === 'max_tokens',
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+    };
+  }
+}
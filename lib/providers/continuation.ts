@@ -0,0 +1,130 @@
+/**
+ * Output-limit Continuation
+ * When a generation stops at max_tokens, asks the model to resume where it stopped
+ * and stitches the pieces into one seamless stream
+ */
+
+import { TokenUsage } from '../types';
+import { createLogger } from '../logger';
+import { GenerationRequest, GenerationResult, LLMProvider } from './types';
+
+export const MAX_CONTINUATIONS = 3;
+
+const log = createLogger('Continuation');
+
+// Providers without prefill get the partial answer back plus this turn
+const CONTINUE_PROMPT = `Your previous reply was cut off by the output limit. Continue exactly where it stopped, mid-line if needed.
+Do not repeat anything already written, do not add an introduction, and do not reopen a code block that is still open.`;
+
+// How much of a continuation is held back to trim overlap before it is streamed
+const STITCH_WINDOW_CHARS = 400;
+const MIN_OVERLAP_CHARS = 16;
+
+export interface ContinuationOptions {
+  maxContinuations?: number;
+  /** Called before each continuation request, with its 1-based count */
+  onContinuation?: (count: number) => void;
+}
+
+export interface ContinuedResult extends GenerationResult {
+  continuations: number;
+}
+
+function hasOpenCodeBlock(text: string): boolean {
+  return (text.match(/^\s*```/gm) ?? []).length % 2 === 1;
+}
+
+/**
+ * Drop what a continuation repeats from the end of the text so far: an overlapping
+ * tail (long enough to be deliberate, or the whitespace a prefill had trimmed) and, after a "continue" turn,
+ * a code fence re-opened with a language tag
+ */
+function stitch(previous: string, continuation: string, prefilled: boolean): string {
+  let text = continuation;
+
+  if (!prefilled && hasOpenCodeBlock(previous)) {
+    text = text.replace(/^\s*```[A-Za-z][^\n]*\n/, '');
+  }
+
+  for (let length = Math.min(previous.length, text.length); length > 0; length--) {
+    const head = text.slice(0, length);
+    if (!previous.endsWith(head)) continue;
+    if (length >= MIN_OVERLAP_CHARS || (prefilled && head.trim() === '')) {
+      return text.slice(length);
+    }
+    break;
+  }
+  return text;
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+  };
+}
+
+/**
+ * Stream a reply, issuing up to `maxContinuations` follow-up requests while the
+ * provider reports the output limit. Usage is summed over all requests.
+ */
+export async function streamWithContinuation(
+  provider: LLMProvider,
+  request: GenerationRequest,
+  onDelta: (text: string) => void,
+  options: ContinuationOptions = {}
+): Promise<ContinuedResult> {
+  const maxContinuations = options.maxContinuations ?? MAX_CONTINUATIONS;
+
+  let result = await provider.stream(request, onDelta);
+  let text = result.text;
+  let usage = result.usage;
+  let continuations = 0;
+
+  while (result.truncated && continuations < maxContinuations && !request.signal?.aborted) {
+    continuations++;
+    options.onContinuation?.(continuations);
+    log.info('Output limit reached, continuing', {
+      provider: provider.id,
+      continuation: `${continuations}/${maxContinuations}`,
+      chars: text.length,
+    });
+
+    // Prefill must not end in whitespace (Anthropic rejects it); stitching drops the repeat
+    const messages = provider.supportsPrefill
+      ? [...request.messages, { role: 'assistant' as const, content: text.trimEnd() }]
+      : [
+          ...request.messages,
+          { role: 'assistant' as const, content: text },
+          { role: 'user' as const, content: CONTINUE_PROMPT },
+        ];
+
+    const previous = text;
+    let pending = '';
+    let stitched = false;
+
+    const flush = () => {
+      const piece = stitch(previous, pending, provider.supportsPrefill);
+      stitched = true;
+      pending = '';
+      text += piece;
+      if (piece) onDelta(piece);
+    };
+
+    result = await provider.stream({ ...request, messages }, (delta) => {
+      if (stitched) {
+        text += delta;
+        onDelta(delta);
+        return;
+      }
+      pending += delta;
+      if (pending.length >= STITCH_WINDOW_CHARS) flush();
+    });
+    if (!stitched) flush();
+
+    usage = addUsage(usage, result.usage);
+  }
+
+  return { ...result, text, usage, continuations };
+}
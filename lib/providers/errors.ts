@@ -0,0 +1,109 @@
+/**
+ * Provider Error Classification
+ * Maps SDK and network errors from any provider onto an ErrorKind the client can act on
+ */
+
+import { APIErrorPayload, ErrorKind } from '../types';
+
+// Worth another attempt: the same request may succeed a moment later
+const TRANSIENT_KINDS: ErrorKind[] = ['rate_limit', 'overloaded', 'network', 'server'];
+
+const NETWORK_CODES = /^(ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|EPIPE|UND_ERR_\w+)$/;
+const CONTEXT_PATTERN = /context.?length|context window|maximum context|prompt is too long|too many tokens|input.*too long|exceeds? .*tokens?/i;
+
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  status?: number;
+  code?: string;
+  headers?: Record<string, string | null | undefined>;
+  error?: { type?: string; code?: string; error?: { type?: string } };
+  cause?: unknown;
+}
+
+function errorCode(error: ErrorLike): string | undefined {
+  return error.code ?? (error.cause as ErrorLike | undefined)?.code;
+}
+
+/**
+ * Provider error type from the response body: Anthropic nests it as error.error.type,
+ * OpenAI exposes `code`/`type` on the error itself
+ */
+function providerErrorType(error: ErrorLike): string | undefined {
+  return error.error?.error?.type ?? error.error?.type ?? error.error?.code ?? error.code;
+}
+
+function retryAfterMs(error: ErrorLike): number | undefined {
+  const headers = error.headers;
+  if (!headers) return undefined;
+
+  const ms = Number(headers['retry-after-ms']);
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyKind(error: ErrorLike, message: string): ErrorKind {
+  const status = error.status;
+  const type = providerErrorType(error) ?? '';
+
+  if (status === 401 || status === 403 || type === 'authentication_error' || type === 'permission_error' || type === 'invalid_api_key') {
+    return 'auth';
+  }
+  if (status === 429 || type === 'rate_limit_error' || type === 'insufficient_quota') return 'rate_limit';
+  if (status === 529 || status === 503 || type === 'overloaded_error') return 'overloaded';
+  if (type === 'context_length_exceeded' || ((status === 400 || status === 413) && CONTEXT_PATTERN.test(message))) {
+    return 'context_length';
+  }
+
+  const code = errorCode(error);
+  if (
+    /^APIConnection(Timeout)?Error$/.test(error.name ?? '') ||
+    (code && NETWORK_CODES.test(code)) ||
+    /fetch failed|socket hang up|network|timed? ?out/i.test(message)
+  ) {
+    return 'network';
+  }
+
+  if (status && status >= 500) return 'server';
+  if (status && status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+export function classifyProviderError(error: unknown): APIErrorPayload {
+  const err = (error ?? {}) as ErrorLike;
+  const message = err.message || String(error) || 'Unknown error';
+
+  return {
+    kind: classifyKind(err, message),
+    error: message,
+    status: err.status,
+    retryAfterMs: retryAfterMs(err),
+  };
+}
+
+/**
+ * Transient failures are retried, except an exhausted quota, which won't recover by waiting
+ */
+export function isRetryable(payload: APIErrorPayload): boolean {
+  return TRANSIENT_KINDS.includes(payload.kind) && !/quota/i.test(payload.error);
+}
+
+/**
+ * Thrown once retries are used up, carrying the classification for the route
+ */
+export class ProviderError extends Error {
+  constructor(readonly payload: APIErrorPayload, options?: { cause?: unknown }) {
+    super(payload.error, options);
+    this.name = 'ProviderError';
+  }
+}
+
+export function toErrorPayload(error: unknown): APIErrorPayload {
+  return error instanceof ProviderError ? error.payload : classifyProviderError(error);
+}
@@ -0,0 +1,65 @@
+/**
+ * LLM Provider Registry
+ * Maps each AIProvider id to a factory; the API route and reranker only go through createProvider
+ */
+
+import { AIProvider, ProviderConfig } from '../types';
+import { validateProviderConfig } from '../models';
+import { AnthropicProvider } from './anthropic';
+import { OpenAIProvider } from './openai';
+import { MockProvider } from './mock';
+import { ProviderError } from './errors';
+import { DEFAULT_RETRIES, RetryingProvider } from './retry';
+import { LLMProvider } from './types';
+
+export type { ChatMessage, GenerationRequest, GenerationResult, LLMProvider } from './types';
+export { streamWithContinuation, MAX_CONTINUATIONS } from './continuation';
+export type { ContinuedResult } from './continuation';
+export { classifyProviderError, toErrorPayload, ProviderError } from './errors';
+
+export interface ProviderOptions {
+  timeout?: number;     // ms
+  maxRetries?: number;  // retries of transient failures before any output; default DEFAULT_RETRIES
+  onRetry?: (attempt: number, delayMs: number, error: ProviderError) => void;
+}
+
+// SDK clients are built with retries off; RetryingProvider handles them for every provider alike
+type ProviderFactory = (config: ProviderConfig, options: { timeout?: number; maxRetries: 0 }) => LLMProvider;
+
+const registry = new Map<AIProvider, ProviderFactory>();
+
+export function registerProvider(id: AIProvider, factory: ProviderFactory): void {
+  registry.set(id, factory);
+}
+
+registerProvider('anthropic', (config, options) => new AnthropicProvider(config.apiKey, options));
+
+registerProvider('openai', (config, options) => new OpenAIProvider(config.apiKey, options));
+
+// Local servers usually ignore the key, but the SDK requires a non-empty one
+registerProvider('openai-compatible', (config, options) =>
+  new OpenAIProvider(config.apiKey || 'not-needed', {
+    ...options,
+    id: 'openai-compatible',
+    baseURL: config.baseURL,
+    streamUsage: false,
+  })
+);
+
+registerProvider('mock', () => new MockProvider());
+
+export function createProvider(config: ProviderConfig, options: ProviderOptions = {}): LLMProvider {
+  const factory = registry.get(config.provider);
+  if (!factory) {
+    throw new Error(`No provider registered for ${config.provider}`);
+  }
+
+  const error = validateProviderConfig(config);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const provider = factory(config, { timeout: options.timeout, maxRetries: 0 });
+  const retries = options.maxRetries ?? DEFAULT_RETRIES;
+  return retries > 0 ? new RetryingProvider(provider, retries, options.onRetry) : provider;
+}
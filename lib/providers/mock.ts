@@ -0,0 +1,147 @@
+/**
+ * Mock Provider
+ * Replays scripted responses from fixture files so the whole pipeline runs without
+ * an API key or network. Fixtures are picked by matching the prompt against fixtures/index.json.
+ * Honors maxTokens and assistant prefill, so output-limit continuation can be exercised too.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { estimateTokens, CHARS_PER_TOKEN } from '../rag/context';
+import { createLogger } from '../logger';
+import { GenerationRequest, GenerationResult, LLMProvider } from './types';
+import defaultFixtures from './fixtures/index.json';
+
+interface FixtureRule {
+  id: string;
+  match?: string;  // regex tested against the last user message; omitted = fallback
+  file: string;
+}
+
+const FIXTURE_DIR = path.join(process.cwd(), 'lib', 'providers', 'fixtures');
+const CHUNK_DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS ?? 10);
+
+const log = createLogger('Mock');
+
+let fixtureRules: Array<FixtureRule & { dir: string }> | null = null;
+
+/**
+ * Built-in fixtures merged with MOCK_LLM_FIXTURES, a directory with its own index.json.
+ * Its rules are checked first, and override built-in rules with the same id.
+ */
+function loadFixtureRules(): Array<FixtureRule & { dir: string }> {
+  const rules = new Map<string, FixtureRule & { dir: string }>();
+
+  const extraDir = process.env.MOCK_LLM_FIXTURES;
+  if (extraDir) {
+    try {
+      const dir = path.resolve(extraDir);
+      const extra = JSON.parse(fs.readFileSync(path.join(dir, 'index.json'), 'utf-8'));
+      if (!Array.isArray(extra)) {
+        throw new Error('expected a JSON array of fixture rules');
+      }
+
+      for (const rule of extra as FixtureRule[]) {
+        if (rule?.id && rule.file) rules.set(rule.id, { ...rule, dir });
+      }
+      log.info('Loaded fixture rules', { count: extra.length, dir: extraDir });
+    } catch (error) {
+      log.warn('Failed to load fixtures', { dir: extraDir, error });
+    }
+  }
+
+  for (const rule of defaultFixtures as FixtureRule[]) {
+    if (!rules.has(rule.id)) rules.set(rule.id, { ...rule, dir: FIXTURE_DIR });
+  }
+
+  // Fallback rules (no pattern) go last regardless of where they came from
+  const all = Array.from(rules.values());
+  return [...all.filter(rule => rule.match), ...all.filter(rule => !rule.match)];
+}
+
+function getFixtureRules() {
+  if (!fixtureRules) {
+    fixtureRules = loadFixtureRules();
+  }
+  return fixtureRules;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Request was aborted.'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Request was aborted.'));
+    }, { once: true });
+  });
+}
+
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly defaultMaxTokens = 8192;
+  readonly supportsPrefill = true;
+
+  /**
+   * A model name equal to a fixture id forces that fixture; otherwise the last
+   * user message picks one (the mode prompts carry "# Mode: ..." markers)
+   */
+  private selectFixture(request: GenerationRequest): { id: string; text: string } {
+    const rules = getFixtureRules();
+    const prompt = request.messages.filter(message => message.role === 'user').pop()?.content ?? '';
+
+    const rule =
+      rules.find(r => r.id === request.model) ??
+      rules.find(r => !r.match || new RegExp(r.match).test(prompt));
+
+    if (!rule) {
+      throw new Error('No mock fixture matches this request');
+    }
+
+    return { id: rule.id, text: fs.readFileSync(path.join(rule.dir, rule.file), 'utf-8') };
+  }
+
+  /**
+   * The part of the fixture this request should produce: after a trailing assistant
+   * message (prefill) when it is a prefix of the fixture, cut at maxTokens
+   */
+  private reply(request: GenerationRequest, fixture: string): GenerationResult {
+    const last = request.messages[request.messages.length - 1];
+    const prefill = last?.role === 'assistant' ? last.content : '';
+    const remaining = prefill && fixture.startsWith(prefill) ? fixture.slice(prefill.length) : fixture;
+
+    const maxChars = Math.floor((request.maxTokens ?? this.defaultMaxTokens) * CHARS_PER_TOKEN);
+    const truncated = remaining.length > maxChars;
+    const text = truncated ? remaining.slice(0, maxChars) : remaining;
+
+    const input = [request.system ?? '', ...request.messages.map(message => message.content)].join('\n');
+    return {
+      text,
+      stopReason: truncated ? 'max_tokens' : 'end_turn',
+      truncated,
+      usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  async stream(request: GenerationRequest, onDelta: (text: string) => void): Promise<GenerationResult> {
+    const fixture = this.selectFixture(request);
+    log.info('Replaying fixture', { fixture: fixture.id });
+
+    const result = this.reply(request, fixture.text);
+
+    // Line by line, like a model streaming tokens
+    const pieces = result.text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    for (const piece of pieces) {
+      if (CHUNK_DELAY_MS > 0) await sleep(CHUNK_DELAY_MS, request.signal);
+      onDelta(piece);
+    }
+
+    return result;
+  }
+
+  async complete(request: GenerationRequest): Promise<GenerationResult> {
+    const fixture = this.selectFixture(request);
+    return this.reply(request, fixture.text);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * OpenAI Provider
+ * Chat Completions API, either OpenAI itself or any server that implements it
+ * (Ollama, LM Studio, vLLM, llama.cpp, ...) via a base URL
+ */
+
+import OpenAI from 'openai';
+import { AIProvider } from '../types';
+import { createLogger, Logger } from '../logger';
+import { getModelInfo } from '../models';
+import { GenerationRequest, GenerationResult, LLMProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  id?: AIProvider;
+  baseURL?: string;
+  /** Request a final usage chunk; not every compatible server supports stream_options */
+  streamUsage?: boolean;
+  timeout?: number;
+  maxRetries?: number;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly id: AIProvider;
+  readonly defaultMaxTokens = 4096;
+  readonly supportsPrefill = false;
+  private client: OpenAI;
+  private streamUsage: boolean;
+  private log: Logger;
+
+  constructor(apiKey: string, options: OpenAIProviderOptions = {}) {
+    this.id = options.id ?? 'openai';
+    this.streamUsage = options.streamUsage ?? true;
+    this.log = this.id === 'openai' ? createLogger('OpenAI') : createLogger('OpenAI', { baseURL: options.baseURL });
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeout,
+      maxRetries: options.maxRetries,
+    });
+  }
+
+  private messages(request: GenerationRequest) {
+    return [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      ...request.messages,
+    ];
+  }
+
+  /**
+   * Output limit and temperature; reasoning models (o1, o3, gpt-5, ...) reject max_tokens
+   * and any temperature but the default
+   */
+  private sampling(request: GenerationRequest) {
+    const maxTokens = request.maxTokens ?? this.defaultMaxTokens;
+    return getModelInfo(request.model).reasoning
+      ? { max_completion_tokens: maxTokens }
+      : { max_tokens: maxTokens, temperature: request.temperature };
+  }
+
+  async stream(request: GenerationRequest, onDelta: (text: string) => void): Promise<GenerationResult> {
+    this.log.debug('Sending request', { model: request.model, maxTokens: request.maxTokens ?? this.defaultMaxTokens });
+
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        stream: true,
+        ...(this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...this.sampling(request),
+      },
+      { signal: request.signal }
+    );
+
+    let text = '';
+    let stopReason: string | undefined;
+    let usage: GenerationResult['usage'];
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content || '';
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (choice?.finish_reason) {
+        stopReason = choice.finish_reason;
+      }
+      // With include_usage the final chunk carries token counts and no choices
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    this.log.debug('Stream completed');
+    return { text, stopReason, truncated: stopReason === 'length', usage };
+  }
+
+  async complete(request: GenerationRequest): Promise<GenerationResult> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: this.messages(request),
+        ...this.sampling(request),
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      },
+      { signal: request.signal }
+    );
+
+    const choice = response.choices?.[0];
+    return {
+      text: choice?.message?.content || '',
+      stopReason: choice?.finish_reason ?? undefined,
+      truncated: choice?.finish_reason === 'length',
+      usage: response.usage
+        ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+        : undefined,
+    };
+  }
+}
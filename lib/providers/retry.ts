@@ -0,0 +1,98 @@
+/**
+ * Retry with Backoff
+ * Wraps a provider so transient failures (rate limits, overload, network, 5xx) are retried
+ * with exponential backoff, but only until the first token has been streamed
+ */
+
+import { createLogger } from '../logger';
+import { classifyProviderError, isRetryable, ProviderError } from './errors';
+import { GenerationRequest, GenerationResult, LLMProvider } from './types';
+
+export const DEFAULT_RETRIES = 3;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+const log = createLogger('Retry');
+
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_DELAY_MS);
+  const exponential = BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(MAX_DELAY_MS, exponential / 2 + Math.random() * (exponential / 2)); // jittered
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Request was aborted.'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Request was aborted.'));
+    }, { once: true });
+  });
+}
+
+export class RetryingProvider implements LLMProvider {
+  readonly id: LLMProvider['id'];
+  readonly defaultMaxTokens: number;
+  readonly supportsPrefill: boolean;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly retries = DEFAULT_RETRIES,
+    private readonly onRetry?: (attempt: number, delayMs: number, error: ProviderError) => void
+  ) {
+    this.id = inner.id;
+    this.defaultMaxTokens = inner.defaultMaxTokens;
+    this.supportsPrefill = inner.supportsPrefill;
+  }
+
+  /**
+   * Run `call` until it succeeds, fails for good, or `canRetry` says output has already gone out
+   */
+  private async attempt(
+    request: GenerationRequest,
+    call: () => Promise<GenerationResult>,
+    canRetry: () => boolean
+  ): Promise<GenerationResult> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await call();
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+
+        const payload = { ...classifyProviderError(error), attempts: attempt };
+        const failure = new ProviderError(payload, { cause: error });
+        if (attempt > this.retries || !isRetryable(payload) || !canRetry()) throw failure;
+
+        const delayMs = backoffDelay(attempt, payload.retryAfterMs);
+        log.warn('Transient provider failure, retrying', {
+          provider: this.id,
+          kind: payload.kind,
+          status: payload.status,
+          attempt: `${attempt}/${this.retries + 1}`,
+          delayMs: Math.round(delayMs),
+          error: payload.error,
+        });
+        this.onRetry?.(attempt, delayMs, failure);
+        await wait(delayMs, request.signal);
+      }
+    }
+  }
+
+  async stream(request: GenerationRequest, onDelta: (text: string) => void): Promise<GenerationResult> {
+    let streamed = false;
+    return this.attempt(
+      request,
+      () => this.inner.stream(request, (text) => {
+        streamed = true;
+        onDelta(text);
+      }),
+      () => !streamed
+    );
+  }
+
+  async complete(request: GenerationRequest): Promise<GenerationResult> {
+    return this.attempt(request, () => this.inner.complete(request), () => true);
+  }
+}
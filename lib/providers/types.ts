@@ -0,0 +1,38 @@
+/**
+ * LLM Provider type definitions
+ */
+
+import { AIProvider, TokenUsage } from '../types';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface GenerationRequest {
+  model: string;
+  system?: string;
+  messages: ChatMessage[];
+  maxTokens?: number;   // provider default when omitted
+  temperature?: number;
+  json?: boolean;       // ask for a JSON object response where the API supports it
+  signal?: AbortSignal;
+}
+
+export interface GenerationResult {
+  text: string;
+  stopReason?: string;  // provider's own value, e.g. 'end_turn', 'max_tokens', 'stop', 'length'
+  truncated?: boolean;  // stopped by the output token limit
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly id: AIProvider;
+  readonly defaultMaxTokens: number;
+  /** Continues a trailing assistant message in place (prefill) instead of needing a "continue" turn */
+  readonly supportsPrefill: boolean;
+  /** Stream a reply, calling `onDelta` with each text fragment */
+  stream(request: GenerationRequest, onDelta: (text: string) => void): Promise<GenerationResult>;
+  /** Single non-streaming reply (reranking and other short calls) */
+  complete(request: GenerationRequest): Promise<GenerationResult>;
+}
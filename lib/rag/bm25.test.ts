@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+
+import { BM25Index, tokenize } from './bm25';
+import { DocumentChunk } from './types';
+
+function chunk(id: string, content: string, title = id): DocumentChunk {
+  return {
+    id,
+    documentId: id,
+    content,
+    metadata: { title, sourceURL: `https://example.com/${id}`, seasonTag: 'DECODE 2025-26', sourcePriority: 1, chunkIndex: 0, totalChunks: 1 },
+  };
+}
+
+describe('tokenize', () => {
+  it('splits Java identifiers and keeps the whole identifier', () => {
+    expect(tokenize('getLatestResult')).toEqual(['getlatestresult', 'get', 'latest', 'result']);
+    expect(tokenize('Limelight3A')).toEqual(['limelight3a', 'limelight']);
+    expect(tokenize('com.qualcomm.hardware')).toEqual(['com', 'qualcomm', 'hardware']);
+  });
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('how to use the x IMU')).toEqual(['use', 'imu']);
+  });
+});
+
+describe('BM25Index', () => {
+  const index = () => {
+    const bm25 = new BM25Index();
+    bm25.addChunks([
+      chunk('imu', 'IMU imu heading yaw reset using the IMU', 'IMU'),
+      chunk('servo', 'servo position setPosition claw'),
+      chunk('motor', 'DcMotor setPower encoder imu'),
+    ]);
+    return bm25;
+  };
+
+  it('ranks chunks with more occurrences of a query term higher', () => {
+    const results = index().search('imu');
+    expect(results.map(result => result.chunk.id)).toEqual(['imu', 'motor']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [claw] = index().search('claw');
+    const [, motor] = index().search('imu');
+    expect(claw.chunk.id).toBe('servo');
+    expect(motor.chunk.id).toBe('motor');
+    expect(claw.score).toBeGreaterThan(motor.score);
+  });
+
+  it('matches split identifier parts', () => {
+    const results = index().search('set power');
+    expect(results.map(result => result.chunk.id)).toEqual(['motor', 'servo']);
+  });
+
+  it('applies the filter and skips chunks without query terms', () => {
+    expect(index().search('imu', { filter: c => c.id !== 'imu' }).map(result => result.chunk.id)).toEqual(['motor']);
+    expect(index().search('nonexistent')).toEqual([]);
+  });
+
+  it('replaces re-added chunks and forgets removed ones', () => {
+    const bm25 = index();
+    bm25.addChunks([chunk('servo', 'intake roller')]);
+    expect(bm25.size).toBe(3);
+    expect(bm25.search('claw')).toEqual([]);
+
+    bm25.removeChunk('imu');
+    expect(bm25.size).toBe(2);
+    expect(bm25.search('heading')).toEqual([]);
+    expect(bm25.search('imu').map(result => result.chunk.id)).toEqual(['motor']);
+  });
+});
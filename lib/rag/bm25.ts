@@ -0,0 +1,154 @@
+/**
+ * BM25 Lexical Index
+ * Inverted index with corpus-level document frequencies for keyword retrieval
+ */
+
+import { DocumentChunk } from './types';
+
+const K1 = 1.5;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'what', 'when', 'where', 'which', 'my',
+]);
+
+/**
+ * Tokenize text with awareness of Java identifiers.
+ * `Limelight3A` yields `limelight3a` and `limelight`; `getLatestResult` yields
+ * `getlatestresult`, `get`, `latest`, `result`; `com.qualcomm.hardware` yields each segment.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const identifiers = text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+(?:\.\d+)?/g) || [];
+
+  for (const identifier of identifiers) {
+    const whole = identifier.toLowerCase();
+    if (whole.length < 2 || STOP_WORDS.has(whole)) continue;
+    tokens.push(whole);
+
+    const parts = identifier
+      .replace(/([a-z])(\d)/g, '$1 $2')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !/^\d+$/.test(part) && !STOP_WORDS.has(part));
+
+    // Also when digits or single letters were the only other parts: "Limelight3A" -> "limelight"
+    for (const part of parts) {
+      if (part !== whole) tokens.push(part);
+    }
+  }
+
+  return tokens;
+}
+
+interface IndexedChunk {
+  chunk: DocumentChunk;
+  length: number;
+  terms: string[];
+}
+
+export class BM25Index {
+  private chunks = new Map<string, IndexedChunk>();
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  get termCount(): number {
+    return this.postings.size;
+  }
+
+  addChunks(chunks: DocumentChunk[]): void {
+    for (const chunk of chunks) {
+      if (this.chunks.has(chunk.id)) {
+        this.removeChunk(chunk.id);
+      }
+
+      const tokens = tokenize(`${chunk.metadata.title}\n${chunk.content}`);
+      const termFreqs = new Map<string, number>();
+      for (const token of tokens) {
+        termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+      }
+
+      termFreqs.forEach((freq, term) => {
+        let postingList = this.postings.get(term);
+        if (!postingList) {
+          postingList = new Map();
+          this.postings.set(term, postingList);
+        }
+        postingList.set(chunk.id, freq);
+      });
+
+      this.chunks.set(chunk.id, { chunk, length: tokens.length, terms: Array.from(termFreqs.keys()) });
+      this.totalLength += tokens.length;
+    }
+  }
+
+  removeChunk(chunkId: string): void {
+    const entry = this.chunks.get(chunkId);
+    if (!entry) return;
+
+    for (const term of entry.terms) {
+      const postingList = this.postings.get(term);
+      if (!postingList) continue;
+      postingList.delete(chunkId);
+      if (postingList.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= entry.length;
+    this.chunks.delete(chunkId);
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score every chunk containing at least one query term.
+   * Only posting lists for the query terms are visited.
+   */
+  search(
+    query: string,
+    options: { filter?: (chunk: DocumentChunk) => boolean } = {}
+  ): Array<{ chunk: DocumentChunk; score: number }> {
+    const totalChunks = this.chunks.size;
+    if (totalChunks === 0) return [];
+
+    const avgLength = this.totalLength / totalChunks || 1;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const postingList = this.postings.get(term);
+      if (!postingList) continue;
+
+      const docFreq = postingList.size;
+      const idf = Math.log(1 + (totalChunks - docFreq + 0.5) / (docFreq + 0.5));
+
+      postingList.forEach((termFreq, chunkId) => {
+        const { length } = this.chunks.get(chunkId)!;
+        const numerator = termFreq * (K1 + 1);
+        const denominator = termFreq + K1 * (1 - B + B * (length / avgLength));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * (numerator / denominator));
+      });
+    }
+
+    const results: Array<{ chunk: DocumentChunk; score: number }> = [];
+    scores.forEach((score, chunkId) => {
+      const { chunk } = this.chunks.get(chunkId)!;
+      if (options.filter && !options.filter(chunk)) return;
+      results.push({ chunk, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
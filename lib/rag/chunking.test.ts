@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+
+import { chunkJavaSource, chunkMarkdownSections, chunkRstSections, createLineLocator } from './chunking';
+
+const JAVA = `package org.firstinspires.ftc.teamcode;
+
+import com.qualcomm.robotcore.eventloop.opmode.LinearOpMode;
+
+/** Drive TeleOp */
+public class Drive extends LinearOpMode {
+    private double speed = 0.5; // "{" in a comment
+
+    @Override
+    public void runOpMode() {
+        String s = "}";
+        while (opModeIsActive()) {
+            drive();
+        }
+    }
+
+    private void drive() {
+        telemetry.addData("speed", speed);
+    }
+
+    static class Helper {
+        int help() { return 1; }
+    }
+}
+`;
+
+describe('createLineLocator', () => {
+  it('maps offsets to 1-based lines', () => {
+    const locate = createLineLocator('a\nbc\n\nd');
+    expect([0, 1, 2, 4, 5, 6].map(locate)).toEqual([1, 1, 2, 2, 3, 4]);
+  });
+});
+
+describe('chunkJavaSource', () => {
+  it('chunks on class and method boundaries with the package and imports on every chunk', () => {
+    const chunks = chunkJavaSource(JAVA)!;
+    expect(chunks.map(chunk => chunk.symbol)).toEqual([
+      'Drive, Drive.runOpMode, Drive.drive',
+      'Drive.Helper, Drive.Helper.help',
+    ]);
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[5, 19], [21, 22]]);
+    for (const chunk of chunks) {
+      expect(chunk.content.startsWith('package org.firstinspires.ftc.teamcode;\nimport com.qualcomm')).toBe(true);
+    }
+  });
+
+  it('ignores braces inside strings and comments', () => {
+    const [drive] = chunkJavaSource(JAVA)!;
+    expect(drive.content).toContain('String s = "}";');
+    expect(drive.content).toContain('telemetry.addData("speed", speed);');
+  });
+
+  it('splits methods longer than the limit into numbered parts', () => {
+    const chunks = chunkJavaSource(JAVA, { maxChars: 120 })!;
+    const parts = chunks.filter(chunk => chunk.symbol?.includes('Drive.runOpMode (part'));
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts[0].symbol).toBe(`Drive.runOpMode (part 1/${parts.length})`);
+  });
+
+  it('returns null when braces do not balance', () => {
+    expect(chunkJavaSource('class A { void f() { ')).toBeNull();
+    expect(chunkJavaSource('class A { } }')).toBeNull();
+  });
+
+  it('chunks Kotlin classes and top-level functions without repeating the package line', () => {
+    const kotlin = 'package x\n\nclass Bot {\n    fun run() {\n        println("hi")\n    }\n}\n\nfun top() {\n    val s = "${1}"\n}\n';
+    const chunks = chunkJavaSource(kotlin, { kotlin: true })!;
+    expect(chunks.map(chunk => chunk.symbol)).toEqual(['Bot, Bot.run', 'top']);
+    expect(chunks[0].startLine).toBe(3);
+    expect(chunks[0].content.match(/package x/g)).toHaveLength(1);
+  });
+});
+
+describe('chunkMarkdownSections', () => {
+  const markdown = '# Software\n\nIntro text.\n\n## Odometry\n\nOdo text.\n\n```\n# not a heading\n```\n\n### Tuning\n\nTune it.\n\nSetext\n======\n\nmore\n';
+
+  it('keeps each section with its heading breadcrumb', () => {
+    const chunks = chunkMarkdownSections(markdown)!;
+    expect(chunks.map(chunk => chunk.breadcrumb)).toEqual([
+      'Software',
+      'Software > Odometry',
+      'Software > Odometry > Tuning',
+      'Setext',
+    ]);
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 4], [5, 12], [13, 16], [17, 21]]);
+    expect(chunks[2].content).toBe('Software > Odometry > Tuning\n\n### Tuning\n\nTune it.');
+  });
+
+  it('ignores headings inside code fences', () => {
+    const chunks = chunkMarkdownSections(markdown)!;
+    expect(chunks[1].content).toContain('# not a heading');
+  });
+
+  it('returns null without headings', () => {
+    expect(chunkMarkdownSections('no headings here')).toBeNull();
+  });
+});
+
+describe('chunkRstSections', () => {
+  it('derives heading levels from the order adornment styles appear', () => {
+    const rst = '=====\nTitle\n=====\n\nintro\n\nSection\n=======\n\nsec text\n\nSub\n---\n\nsub text\n\nOther\n=====\n\nother\n';
+    const chunks = chunkRstSections(rst)!;
+    expect(chunks.map(chunk => chunk.breadcrumb)).toEqual([
+      'Title',
+      'Title > Section',
+      'Title > Section > Sub',
+      'Title > Other',
+    ]);
+    expect(chunks[2].content).toBe('Title > Section > Sub\n\nSub\n---\n\nsub text');
+  });
+
+  it('returns null without section titles', () => {
+    expect(chunkRstSections('plain paragraph\n\nanother')).toBeNull();
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Structural Chunking
+ * Splits source files and docs along their structure instead of fixed character windows
+ */
+
+import { CODE_CHUNK_MAX_CHARS, SECTION_CHUNK_MAX_CHARS } from './types';
+
+export interface TextChunk {
+  content: string;
+  symbol?: string;
+  breadcrumb?: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;   // 1-based, inclusive
+}
+
+/**
+ * Map character offsets to 1-based line numbers using a binary search over line starts
+ */
+export function createLineLocator(text: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Java / Kotlin
+// ---------------------------------------------------------------------------
+
+interface BraceBlock {
+  header: string;
+  headerStartLine: number; // 0-based
+  openLine: number;        // 0-based
+  closeLine: number;       // 0-based
+  parent: BraceBlock | null;
+  children: BraceBlock[];
+  kind: 'type' | 'method' | 'other';
+  name?: string;
+}
+
+interface CodeUnit {
+  startLine: number; // 0-based
+  endLine: number;   // 0-based
+  symbols: string[];
+  includesSignature: boolean;
+}
+
+const TYPE_PATTERN = /\b(?:class|interface|enum|record|object)\s+([A-Za-z_]\w*)/;
+const JAVA_METHOD_PATTERN = /([A-Za-z_]\w*)\s*\([\s\S]*\)\s*(?:throws\s+[\w.,\s]+)?$/;
+const KOTLIN_FUN_PATTERN = /\bfun\s+(?:<[^>]*>\s*)?(?:[\w.]+\.)?([A-Za-z_]\w*)\s*\(/;
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'synchronized', 'try', 'do', 'else', 'when', 'return', 'new',
+]);
+
+function stripComments(text: string): string {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\/\/.*$/gm, ' ');
+}
+
+function classifyBlock(block: BraceBlock, isKotlin: boolean): void {
+  const header = stripComments(block.header)
+    .replace(/"(?:\\.|[^"\\])*"/g, '""')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const withoutAnnotations = header.replace(/@\w+(?:\.\w+)*(?:\s*\([^)]*\))?/g, ' ').trim();
+
+  const typeMatch = withoutAnnotations.match(TYPE_PATTERN);
+  if (typeMatch && !withoutAnnotations.includes('=')) {
+    block.kind = 'type';
+    block.name = typeMatch[1];
+    return;
+  }
+
+  if (block.parent && block.parent.kind !== 'type') return;
+  if (withoutAnnotations.includes('=') && !isKotlin) return;
+
+  const methodMatch = isKotlin
+    ? withoutAnnotations.match(KOTLIN_FUN_PATTERN)
+    : withoutAnnotations.match(JAVA_METHOD_PATTERN);
+
+  if (methodMatch && !CONTROL_KEYWORDS.has(methodMatch[1])) {
+    block.kind = 'method';
+    block.name = methodMatch[1];
+  }
+}
+
+/**
+ * Build the brace tree of a Java/Kotlin file, skipping strings, chars and comments.
+ * Returns null when braces do not balance.
+ */
+function scanBraceBlocks(source: string, isKotlin: boolean): BraceBlock[] | null {
+  const roots: BraceBlock[] = [];
+  const stack: BraceBlock[] = [];
+  let line = 0;
+  let statementStart = 0;
+  let i = 0;
+
+  const firstContentLine = (start: number, end: number) => {
+    let offsetLine = line;
+    for (let j = end - 1; j >= start; j--) {
+      if (source[j] === '\n') offsetLine--;
+    }
+    let j = start;
+    // A trailing comment on the previous statement's line (e.g. `}  // end method`) belongs to it
+    while (j < end && (source[j] === ' ' || source[j] === '\t')) j++;
+    if (source[j] === '/' && source[j + 1] === '/') {
+      while (j < end && source[j] !== '\n') j++;
+    }
+    while (j < end && /\s/.test(source[j])) {
+      if (source[j] === '\n') offsetLine++;
+      j++;
+    }
+    return offsetLine;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === '\n') {
+      // Kotlin package/import lines have no `;` to end them
+      const lineStart = source.lastIndexOf('\n', i - 1) + 1;
+      if (stack.length === 0 && /^\s*(package|import)\s/.test(source.slice(lineStart, i))) statementStart = i + 1;
+      line++;
+      i++;
+    } else if (ch === '/' && next === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (ch === '/' && next === '*') {
+      i += 2;
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+        if (source[i] === '\n') line++;
+        i++;
+      }
+      i += 2;
+    } else if (ch === '"' && next === '"' && source[i + 2] === '"') {
+      i += 3;
+      while (i < source.length && !(source[i] === '"' && source[i + 1] === '"' && source[i + 2] === '"')) {
+        if (source[i] === '\n') line++;
+        i++;
+      }
+      i += 3;
+    } else if (ch === '"' || ch === '\'') {
+      i++;
+      while (i < source.length && source[i] !== ch && source[i] !== '\n') {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+      i++;
+    } else if (ch === '{') {
+      const parent = stack[stack.length - 1] ?? null;
+      const block: BraceBlock = {
+        header: source.slice(statementStart, i),
+        headerStartLine: firstContentLine(statementStart, i),
+        openLine: line,
+        closeLine: -1,
+        parent,
+        children: [],
+        kind: 'other',
+      };
+      classifyBlock(block, isKotlin);
+      (parent ? parent.children : roots).push(block);
+      stack.push(block);
+      statementStart = i + 1;
+      i++;
+    } else if (ch === '}') {
+      const block = stack.pop();
+      if (!block) return null;
+      block.closeLine = line;
+      statementStart = i + 1;
+      i++;
+    } else {
+      if (ch === ';') statementStart = i + 1;
+      i++;
+    }
+  }
+
+  return stack.length === 0 ? roots : null;
+}
+
+function typeSignature(block: BraceBlock): string {
+  return stripComments(block.header).replace(/\s+/g, ' ').trim();
+}
+
+function splitLongUnit(unit: CodeUnit, lines: string[], maxChars: number): CodeUnit[] {
+  const parts: CodeUnit[] = [];
+  let start = unit.startLine;
+  let size = 0;
+
+  for (let l = unit.startLine; l <= unit.endLine; l++) {
+    size += lines[l].length + 1;
+    if (size >= maxChars || l === unit.endLine) {
+      parts.push({ ...unit, startLine: start, endLine: l, includesSignature: unit.includesSignature && start === unit.startLine });
+      start = l + 1;
+      size = 0;
+    }
+  }
+
+  if (parts.length > 1) {
+    parts.forEach((part, index) => {
+      part.symbols = unit.symbols.map(symbol => `${symbol} (part ${index + 1}/${parts.length})`);
+    });
+  }
+
+  return parts;
+}
+
+function unitLength(unit: CodeUnit, lines: string[]): number {
+  let size = 0;
+  for (let l = unit.startLine; l <= unit.endLine; l++) size += lines[l].length + 1;
+  return size;
+}
+
+/**
+ * Collect method units and the leftover member lines (fields, initializers, type javadoc)
+ * for one type declaration, recursing into nested types.
+ */
+function collectTypeUnits(
+  type: BraceBlock,
+  qualifiedName: string,
+  lines: string[],
+  out: Array<{ type: BraceBlock; units: CodeUnit[] }>
+): void {
+  const units: CodeUnit[] = [];
+  const covered = new Set<number>();
+
+  for (const child of type.children) {
+    if (child.kind === 'type') {
+      collectTypeUnits(child, `${qualifiedName}.${child.name}`, lines, out);
+      for (let l = child.headerStartLine; l <= child.closeLine; l++) covered.add(l);
+    } else if (child.kind === 'method') {
+      units.push({
+        startLine: child.headerStartLine,
+        endLine: child.closeLine,
+        symbols: [`${qualifiedName}.${child.name}`],
+        includesSignature: false,
+      });
+      for (let l = child.headerStartLine; l <= child.closeLine; l++) covered.add(l);
+    }
+  }
+
+  // Remaining member lines (including the type's own javadoc + signature) grouped into contiguous runs
+  let runStart = -1;
+  const flushRun = (end: number) => {
+    if (runStart < 0) return;
+    const text = lines.slice(runStart, end + 1).join('\n');
+    if (/[^\s{}]/.test(text)) {
+      units.push({
+        startLine: runStart,
+        endLine: end,
+        symbols: [qualifiedName],
+        includesSignature: runStart <= type.openLine,
+      });
+    }
+    runStart = -1;
+  };
+
+  for (let l = type.headerStartLine; l <= type.closeLine; l++) {
+    if (covered.has(l)) {
+      flushRun(l - 1);
+    } else if (runStart < 0) {
+      runStart = l;
+    }
+  }
+  flushRun(type.closeLine);
+
+  units.sort((a, b) => a.startLine - b.startLine);
+  out.push({ type, units });
+}
+
+/**
+ * Chunk a Java or Kotlin file on class and method boundaries.
+ * Each chunk carries the package + imports and its enclosing class signature so it
+ * reads on its own. Returns null when the file can't be parsed structurally.
+ */
+export function chunkJavaSource(
+  source: string,
+  options: { kotlin?: boolean; maxChars?: number } = {}
+): TextChunk[] | null {
+  const maxChars = options.maxChars ?? CODE_CHUNK_MAX_CHARS;
+  const roots = scanBraceBlocks(source, options.kotlin ?? false);
+  if (!roots) return null;
+
+  const lines = source.split('\n');
+  const header = lines
+    .filter(l => /^\s*(package|import)\s/.test(l))
+    .join('\n')
+    .trim();
+
+  const groups: Array<{ type: BraceBlock; units: CodeUnit[] }> = [];
+  const topLevelFunctions: CodeUnit[] = [];
+
+  for (const root of roots) {
+    if (root.kind === 'type') {
+      collectTypeUnits(root, root.name!, lines, groups);
+    } else if (root.kind === 'method') {
+      topLevelFunctions.push({
+        startLine: root.headerStartLine,
+        endLine: root.closeLine,
+        symbols: [root.name!],
+        includesSignature: false,
+      });
+    }
+  }
+
+  if (groups.length === 0 && topLevelFunctions.length === 0) return null;
+
+  const chunks: TextChunk[] = [];
+
+  const emit = (units: CodeUnit[], signature: string | null) => {
+    // Merge adjacent small units, split oversized ones
+    const merged: CodeUnit[] = [];
+    for (const unit of units.flatMap(u => splitLongUnit(u, lines, maxChars))) {
+      const previous = merged[merged.length - 1];
+      const gapIsBlank = previous &&
+        lines.slice(previous.endLine + 1, unit.startLine).every(l => !l.trim());
+      if (
+        previous &&
+        gapIsBlank &&
+        unit.startLine > previous.endLine &&
+        unitLength(previous, lines) + unitLength(unit, lines) <= maxChars
+      ) {
+        previous.endLine = unit.endLine;
+        previous.symbols.push(...unit.symbols);
+        previous.includesSignature = previous.includesSignature || unit.includesSignature;
+      } else {
+        merged.push({ ...unit, symbols: [...unit.symbols] });
+      }
+    }
+
+    for (const unit of merged) {
+      const body = lines.slice(unit.startLine, unit.endLine + 1).join('\n');
+      const parts = [header];
+      if (signature && !unit.includesSignature) {
+        parts.push(`${signature} {\n    // ...\n${body}\n}`);
+      } else {
+        parts.push(body);
+      }
+
+      chunks.push({
+        content: parts.filter(Boolean).join('\n\n'),
+        symbol: Array.from(new Set(unit.symbols)).join(', '),
+        startLine: unit.startLine + 1,
+        endLine: unit.endLine + 1,
+      });
+    }
+  };
+
+  for (const { type, units } of groups) {
+    emit(units, typeSignature(type));
+  }
+  emit(topLevelFunctions, null);
+
+  return chunks.sort((a, b) => a.startLine - b.startLine);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown / reStructuredText
+// ---------------------------------------------------------------------------
+
+interface Heading {
+  line: number;    // 0-based line where the heading markup starts
+  endLine: number; // 0-based line where the heading markup ends (underline for setext/RST)
+  level: number;   // 1 = top-level
+  title: string;
+}
+
+const RST_ADORNMENT = /^([=\-~^"'`*+#<>_:.!$%&,;?@|\\/])\1{2,}\s*$/;
+
+function cleanHeadingTitle(title: string): string {
+  return title
+    .replace(/`+/g, '')
+    .replace(/\s+#+\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findMarkdownHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      continue;
+    }
+    if (fence) continue;
+
+    const atx = line.match(/^(#{1,6})\s+(.+)$/);
+    if (atx) {
+      headings.push({ line: i, endLine: i, level: atx[1].length, title: cleanHeadingTitle(atx[2]) });
+      continue;
+    }
+
+    // Setext: "Title" followed by ==== (h1) or ---- (h2)
+    const next = lines[i + 1];
+    if (line.trim() && !/^\s/.test(line) && next && /^(=+|-+)\s*$/.test(next) && next.trim().length >= 3) {
+      headings.push({ line: i, endLine: i + 1, level: next.trim()[0] === '=' ? 1 : 2, title: cleanHeadingTitle(line) });
+      i++;
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * RST heading levels are defined by the order in which adornment styles first appear
+ * (e.g. overlined "=" then underlined "=" then "-"), not by the characters themselves.
+ */
+function findRstHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  const styleLevels = new Map<string, number>();
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const title = lines[i];
+    if (!title.trim() || /^\s/.test(title) || RST_ADORNMENT.test(title)) continue;
+
+    const under = lines[i + 1].match(RST_ADORNMENT);
+    if (!under || lines[i + 1].trim().length < title.trim().length) continue;
+
+    const over = i > 0 ? lines[i - 1].match(RST_ADORNMENT) : null;
+    const hasOverline = !!over && over[1] === under[1];
+    const style = `${hasOverline ? 'over' : 'under'}:${under[1]}`;
+
+    if (!styleLevels.has(style)) {
+      styleLevels.set(style, styleLevels.size + 1);
+    }
+
+    headings.push({
+      line: hasOverline ? i - 1 : i,
+      endLine: i + 1,
+      level: styleLevels.get(style)!,
+      title: cleanHeadingTitle(title),
+    });
+    i++;
+  }
+
+  return headings;
+}
+
+function splitSectionBody(lines: string[], start: number, end: number, maxChars: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let rangeStart = start;
+  let size = 0;
+  let lastBreak = -1;
+
+  for (let l = start; l <= end; l++) {
+    size += lines[l].length + 1;
+    if (!lines[l].trim()) lastBreak = l;
+
+    if (size >= maxChars && l < end) {
+      // Prefer to cut at the last blank line (paragraph boundary) inside the window
+      const cut = lastBreak > rangeStart ? lastBreak : l;
+      ranges.push([rangeStart, cut]);
+      rangeStart = cut + 1;
+      size = 0;
+      for (let k = rangeStart; k <= l; k++) size += lines[k].length + 1;
+      lastBreak = -1;
+    }
+  }
+
+  if (rangeStart <= end) ranges.push([rangeStart, end]);
+  return ranges;
+}
+
+function chunkSections(source: string, headings: Heading[], maxChars: number): TextChunk[] {
+  const lines = source.split('\n');
+  const chunks: TextChunk[] = [];
+  const trail: string[] = [];
+
+  const emitSection = (start: number, end: number, breadcrumb: string) => {
+    if (end < start) return;
+    if (!lines.slice(start, end + 1).some(l => l.trim())) return;
+
+    for (const [from, to] of splitSectionBody(lines, start, end, maxChars)) {
+      const body = lines.slice(from, to + 1).join('\n').trim();
+      if (!body) continue;
+      // The heading line already names a top-level section; deeper sections and continuation parts need the trail
+      const needsTrail = breadcrumb && (breadcrumb.includes(' > ') || from !== start);
+      chunks.push({
+        content: needsTrail ? `${breadcrumb}\n\n${body}` : body,
+        breadcrumb: breadcrumb || undefined,
+        startLine: from + 1,
+        endLine: to + 1,
+      });
+    }
+  };
+
+  // Preamble before the first heading (RST directives, badges, etc.)
+  emitSection(0, (headings[0]?.line ?? lines.length) - 1, '');
+
+  headings.forEach((heading, index) => {
+    trail.length = heading.level - 1;
+    trail[heading.level - 1] = heading.title;
+    const breadcrumb = trail.filter(Boolean).join(' > ');
+
+    const bodyStart = heading.endLine + 1;
+    const bodyEnd = (headings[index + 1]?.line ?? lines.length) - 1;
+
+    // Headings with no body of their own are carried by their children's breadcrumbs
+    if (!lines.slice(bodyStart, bodyEnd + 1).some(l => l.trim() && !RST_ADORNMENT.test(l))) return;
+
+    emitSection(heading.line, bodyEnd, breadcrumb);
+  });
+
+  return chunks;
+}
+
+/**
+ * Chunk a Markdown file so each section stays together with its heading breadcrumb
+ * ("Software > Odometry > Tuning"). Returns null when the file has no headings.
+ */
+export function chunkMarkdownSections(source: string, options: { maxChars?: number } = {}): TextChunk[] | null {
+  const headings = findMarkdownHeadings(source.split('\n'));
+  if (headings.length === 0) return null;
+  return chunkSections(source, headings, options.maxChars ?? SECTION_CHUNK_MAX_CHARS);
+}
+
+/**
+ * Chunk a reStructuredText file (e.g. gm0 `source/docs`) on its section titles.
+ * Returns null when the file has no section titles.
+ */
+export function chunkRstSections(source: string, options: { maxChars?: number } = {}): TextChunk[] | null {
+  const headings = findRstHeadings(source.split('\n'));
+  if (headings.length === 0) return null;
+  return chunkSections(source, headings, options.maxChars ?? SECTION_CHUNK_MAX_CHARS);
+}
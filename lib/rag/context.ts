@@ -0,0 +1,307 @@
+/**
+ * Prompt Context Assembly
+ * Builds the retrieved-context block from matched chunks: adjacent chunks are merged,
+ * neighbors fill leftover budget, and excerpts carry line numbers for citations
+ */
+
+import { FTCDocument, RAGResult, RetrievedSource } from '../types';
+import { getModelInfo } from '../models';
+import {
+  DocumentChunk,
+  SourcePriority,
+  SOURCE_PRIORITY_LABELS,
+  CONTEXT_BUDGET_RATIO,
+  CONTEXT_MIN_TOKENS,
+  CONTEXT_MAX_TOKENS,
+  CONTEXT_TOKENS_PER_CHUNK,
+} from './types';
+
+export const CHARS_PER_TOKEN = 3.5; // code-heavy text tokenizes denser than prose
+
+export interface ContextOptions {
+  maxTokens?: number;
+  /** Chunk at `index` of a document, used to pull in neighbors */
+  getChunk?: (documentId: string, index: number) => DocumentChunk | undefined;
+}
+
+export interface PromptContext {
+  context: string;
+  sources: RetrievedSource[]; // in [n] order, only sources that made it into the context
+}
+
+interface Excerpt {
+  chunks: DocumentChunk[]; // contiguous by chunkIndex
+}
+
+interface DocumentPlan {
+  document: FTCDocument;
+  excerpts: Excerpt[];
+}
+
+interface RenderedExcerpt {
+  text: string;
+  label: string;
+  startLine?: number;
+  endLine?: number;
+  page?: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Retrieved-context budget for a model: a share of its context window, clamped.
+ * `contextWindow` overrides the model table (e.g. a locally served model)
+ */
+export function contextBudgetForModel(model?: string, contextWindowOverride?: number): number {
+  const contextWindow = contextWindowOverride || getModelInfo(model).contextWindow;
+  return Math.round(
+    Math.min(CONTEXT_MAX_TOKENS, Math.max(CONTEXT_MIN_TOKENS, contextWindow * CONTEXT_BUDGET_RATIO))
+  );
+}
+
+/**
+ * How many chunks to retrieve so the budget is roughly filled
+ */
+export function chunkLimitForBudget(maxTokens: number): number {
+  return Math.min(16, Math.max(5, Math.round(maxTokens / CONTEXT_TOKENS_PER_CHUNK)));
+}
+
+function truncateToTokens(text: string, maxTokens: number): string | null {
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) return text;
+  if (maxChars < 200) return null;
+  return `${text.slice(0, maxChars)}\n… (truncated)`;
+}
+
+function hasLines(chunk: DocumentChunk): boolean {
+  return chunk.metadata.startLine !== undefined && chunk.metadata.endLine !== undefined;
+}
+
+/**
+ * Group matched chunks per document (best document first) and merge runs of
+ * adjacent chunks; a single-chunk gap between two matches is filled in
+ */
+function planDocuments(result: RAGResult, getChunk?: ContextOptions['getChunk']): DocumentPlan[] {
+  const ranked = result.rankedChunks ?? result.documents.map((document, i) => ({
+    document,
+    chunk: result.chunks?.[i],
+  }));
+
+  const grouped = new Map<string, { document: FTCDocument; chunks: DocumentChunk[] }>();
+  for (const { document, chunk } of ranked) {
+    const group = grouped.get(document.id) ?? { document, chunks: [] };
+    if (chunk && !group.chunks.some(c => c.id === chunk.id)) group.chunks.push(chunk);
+    grouped.set(document.id, group);
+  }
+
+  return Array.from(grouped.values()).map(({ document, chunks }) => {
+    const sorted = [...chunks].sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
+    const excerpts: Excerpt[] = [];
+
+    for (const chunk of sorted) {
+      const current = excerpts[excerpts.length - 1];
+      const last = current?.chunks[current.chunks.length - 1];
+      const gap = last ? chunk.metadata.chunkIndex - last.metadata.chunkIndex : Infinity;
+
+      if (last && gap === 1) {
+        current.chunks.push(chunk);
+      } else if (last && gap === 2 && getChunk?.(document.id, last.metadata.chunkIndex + 1)) {
+        current.chunks.push(getChunk(document.id, last.metadata.chunkIndex + 1)!, chunk);
+      } else {
+        excerpts.push({ chunks: [chunk] });
+      }
+    }
+
+    return { document, excerpts };
+  });
+}
+
+/**
+ * Excerpt text with line numbers taken from the original document, so overlapping
+ * window chunks and synthesized code-chunk headers don't repeat
+ */
+function renderExcerpt(document: FTCDocument, excerpt: Excerpt, maxTokens: number): RenderedExcerpt | null {
+  const first = excerpt.chunks[0];
+  const last = excerpt.chunks[excerpt.chunks.length - 1];
+
+  if (!excerpt.chunks.every(hasLines)) {
+    const text = truncateToTokens(excerpt.chunks.map(chunk => chunk.content).join('\n\n'), maxTokens);
+    return text
+      ? { text, label: first.metadata.page ? `Page ${first.metadata.page}` : 'Excerpt', page: first.metadata.page }
+      : null;
+  }
+
+  const startLine = Math.min(...excerpt.chunks.map(chunk => chunk.metadata.startLine!));
+  const endLine = Math.max(...excerpt.chunks.map(chunk => chunk.metadata.endLine!));
+  const lines = document.content.split('\n').slice(startLine - 1, endLine);
+  const width = String(endLine).length;
+
+  const page = first.metadata.page ?? last.metadata.page;
+  const numbered: string[] = [];
+  let used = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = `${String(startLine + i).padStart(width)} | ${lines[i]}`;
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > maxTokens) {
+      if (numbered.length < 5) return null;
+      numbered.push(`… (truncated at line ${startLine + i - 1} of ${endLine})`);
+      return {
+        text: numbered.join('\n'),
+        label: `${page ? `Page ${page}, ` : ''}Lines ${startLine}-${startLine + i - 1}`,
+        startLine,
+        endLine: startLine + i - 1,
+        page,
+      };
+    }
+    numbered.push(line);
+    used += cost;
+  }
+
+  return {
+    text: numbered.join('\n'),
+    label: `${page ? `Page ${page}, ` : ''}Lines ${startLine}-${endLine}`,
+    startLine,
+    endLine,
+    page,
+  };
+}
+
+/**
+ * Pull in the chunk just before/after each excerpt while budget remains
+ */
+function addNeighbors(plans: DocumentPlan[], getChunk: NonNullable<ContextOptions['getChunk']>, budgetTokens: number): void {
+  let spent = 0;
+
+  for (const { document, excerpts } of plans) {
+    for (const excerpt of excerpts) {
+      const first = excerpt.chunks[0];
+      const last = excerpt.chunks[excerpt.chunks.length - 1];
+      const taken = new Set(excerpts.flatMap(e => e.chunks.map(chunk => chunk.metadata.chunkIndex)));
+
+      const before = getChunk(document.id, first.metadata.chunkIndex - 1);
+      const after = getChunk(document.id, last.metadata.chunkIndex + 1);
+
+      for (const neighbor of [before, after]) {
+        if (!neighbor || taken.has(neighbor.metadata.chunkIndex)) continue;
+        const cost = estimateTokens(neighbor.content);
+        if (spent + cost > budgetTokens) return;
+
+        spent += cost;
+        if (neighbor === before) excerpt.chunks.unshift(neighbor);
+        else excerpt.chunks.push(neighbor);
+      }
+    }
+  }
+}
+
+function sourceAnchor(document: FTCDocument, excerpt: RenderedExcerpt): string {
+  if (excerpt.startLine !== undefined && /^https:\/\/github\.com\//.test(document.sourceURL) && !document.sourceURL.includes('#')) {
+    return `${document.sourceURL}#L${excerpt.startLine}-L${excerpt.endLine}`;
+  }
+  return document.sourceURL;
+}
+
+/**
+ * Best retrieval score per document, for the structured source list
+ */
+function documentScores(result: RAGResult): Map<string, number> {
+  const scores = new Map<string, number>();
+  result.documents.forEach((document, i) => scores.set(document.id, result.scores[i] ?? 0));
+  for (const { document, score } of result.rankedChunks ?? []) {
+    scores.set(document.id, Math.max(score, scores.get(document.id) ?? 0));
+  }
+  return scores;
+}
+
+export function assembleContext(result: RAGResult, options: ContextOptions = {}): PromptContext {
+  const maxTokens = options.maxTokens ?? CONTEXT_MIN_TOKENS;
+  const plans = planDocuments(result, options.getChunk);
+
+  let context = `# Retrieved FTC Source Code and Documentation
+
+IMPORTANT: Use only these sources. If the needed API/class isn’t here, state that explicitly.
+Excerpts are line-numbered; cite them as [source number] plus lines, e.g. [2] L40-L52.
+
+`;
+  let remaining = maxTokens - estimateTokens(context);
+
+  // Matched chunks first; neighbors only get what the matches leave over
+  const matchedTokens = plans.reduce(
+    (sum, plan) => sum + plan.excerpts.reduce((s, e) => s + e.chunks.reduce((c, chunk) => c + estimateTokens(chunk.content), 0), 0),
+    0
+  );
+  if (options.getChunk && matchedTokens < remaining) {
+    addNeighbors(plans, options.getChunk, remaining - matchedTokens);
+  }
+
+  const scores = documentScores(result);
+  const sources: RetrievedSource[] = [];
+  let index = 0;
+  for (const { document: doc, excerpts } of plans) {
+    const chunks = excerpts.flatMap(excerpt => excerpt.chunks);
+    const breadcrumb = chunks.find(chunk => chunk.metadata.breadcrumb)?.metadata.breadcrumb;
+    const symbols = Array.from(new Set(chunks.flatMap(chunk => chunk.metadata.symbol?.split(', ') ?? [])));
+
+    // Line ranges skip the file header, so code excerpts restate the imports
+    const imports = /\.(java|kt)$/.test(doc.title)
+      ? doc.content
+          .split('\n')
+          .filter(line => /^\s*import\s/.test(line))
+          .map(line => line.trim().replace(/^import\s+|;$/g, ''))
+      : [];
+    const importsText = imports.length > 0 ? `\nImports: ${imports.join(', ')}` : '';
+
+    const rendered: RenderedExcerpt[] = [];
+    const headerTokens = 80 + estimateTokens(importsText);
+    let docRemaining = remaining - headerTokens;
+
+    for (const excerpt of excerpts) {
+      const part = renderExcerpt(doc, excerpt, docRemaining);
+      if (!part) break;
+      rendered.push(part);
+      docRemaining -= estimateTokens(part.text) + 10;
+    }
+
+    // Results without chunk information fall back to the start of the document
+    if (excerpts.length === 0) {
+      const text = truncateToTokens(doc.content, docRemaining);
+      if (text) rendered.push({ text, label: 'Excerpt' });
+    }
+
+    if (rendered.length === 0) break;
+    index++;
+
+    const url = sourceAnchor(doc, rendered[0]);
+    const lineStarts = rendered.flatMap(part => (part.startLine !== undefined ? [part.startLine] : []));
+    const lineEnds = rendered.flatMap(part => (part.endLine !== undefined ? [part.endLine] : []));
+    sources.push({
+      index,
+      title: doc.title,
+      url,
+      priority: doc.sourcePriority,
+      priorityLabel: SOURCE_PRIORITY_LABELS[doc.sourcePriority as SourcePriority] ?? `Priority ${doc.sourcePriority}`,
+      score: scores.get(doc.id) ?? 0,
+      startLine: lineStarts.length > 0 ? Math.min(...lineStarts) : undefined,
+      endLine: lineEnds.length > 0 ? Math.max(...lineEnds) : undefined,
+      page: rendered.find(part => part.page !== undefined)?.page,
+    });
+
+    const block = `## Source [${index}] - ${doc.title}
+URL: ${url}
+Priority: ${doc.sourcePriority}${breadcrumb ? `\nSection: ${breadcrumb}` : ''}${symbols.length > 0 ? `\nSymbols: ${symbols.join(', ')}` : ''}${importsText}
+
+${rendered.map(part => `${part.label}:\n${part.text}`).join('\n\n[...]\n\n')}
+
+---
+
+`;
+
+    context += block;
+    remaining -= estimateTokens(block);
+    if (remaining <= 0) break;
+  }
+
+  return { context, sources };
+}
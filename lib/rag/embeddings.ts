@@ -1,19 +1,29 @@
 /**
- * Embeddings using OpenAI API
- * Converts text into semantic vectors for similarity search
+ * Embedding Models
+ * Converts text into vectors for similarity search (OpenAI API or fully local hashing)
  */
 
 import OpenAI from 'openai';
+import { EmbeddingModel } from './types';
+import { tokenize } from './bm25';
+import { createLogger } from '../logger';
 
-export class OpenAIEmbeddings {
+const log = createLogger('Embeddings');
+
+export class OpenAIEmbeddings implements EmbeddingModel {
   private client: OpenAI;
   private model = 'text-embedding-3-small';
+  readonly batchDelayMs = 1000;
 
   constructor(apiKey: string) {
     this.client = new OpenAI({ apiKey });
   }
 
-  async embedTexts(texts: string[]): Promise<number[][]> {
+  get modelId(): string {
+    return `openai:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
     try {
       const response = await this.client.embeddings.create({
         model: this.model,
@@ -22,17 +32,113 @@ export class OpenAIEmbeddings {
 
       return response.data.map(item => item.embedding);
     } catch (error) {
-      console.error('[Embeddings] Failed to generate embeddings:', error);
+      log.error('Failed to generate embeddings', { error });
       throw error;
     }
   }
 
   async embedQuery(text: string): Promise<number[]> {
-    const embeddings = await this.embedTexts([text]);
+    const embeddings = await this.embed([text]);
     return embeddings[0];
   }
 }
 
+/**
+ * Local, CPU-only embeddings via feature hashing.
+ * Java-aware tokens plus character trigrams are hashed into a fixed number of signed buckets,
+ * weighted by sublinear term frequency and L2-normalized. No network, no key, no model download.
+ */
+export class HashingEmbeddings implements EmbeddingModel {
+  constructor(private readonly dimensions: number = 512) {}
+
+  get modelId(): string {
+    return `local:hashing-${this.dimensions}-v1`;
+  }
+
+  private vectorize(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+
+      // Character trigrams give partial credit to related identifiers (odometry / odo, pinpoint / pinpointdrive)
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        const gram = `#${padded.slice(i, i + 3)}`;
+        counts.set(gram, (counts.get(gram) || 0) + 0.25);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count + 1));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.vectorize(text);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embedding provider registry
+ * Providers are looked up by id; register new backends without touching retrieval code.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  create(options: { apiKey?: string }): EmbeddingModel;
+}
+
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProviders.set(provider.id, provider);
+}
+
+export function getEmbeddingProvider(id: string): EmbeddingProvider | undefined {
+  return embeddingProviders.get(id);
+}
+
+export function listEmbeddingProviders(): EmbeddingProvider[] {
+  return Array.from(embeddingProviders.values());
+}
+
+registerEmbeddingProvider({
+  id: 'openai',
+  label: 'OpenAI embeddings',
+  requiresApiKey: true,
+  create: ({ apiKey }) => {
+    if (!apiKey) throw new Error('OpenAI embeddings require an API key');
+    return new OpenAIEmbeddings(apiKey);
+  },
+});
+
+registerEmbeddingProvider({
+  id: 'local',
+  label: 'Local hashing embeddings',
+  requiresApiKey: false,
+  create: () => new HashingEmbeddings(),
+});
+
 /**
  * Cosine similarity between two vectors
  */
@@ -0,0 +1,55 @@
+/**
+ * Reciprocal Rank Fusion
+ * Merges ranked lists from different retrievers without calibrating their raw scores
+ */
+
+import { RetrievalScores } from '../types';
+import { DocumentChunk } from './types';
+
+export interface FusionOptions {
+  lexicalWeight: number;
+  semanticWeight: number;
+  k: number; // RRF damping constant; larger values flatten the contribution of top ranks
+}
+
+export interface FusedChunk {
+  chunk: DocumentChunk;
+  scores: RetrievalScores;
+}
+
+/**
+ * fused = lexicalWeight / (k + lexicalRank) + semanticWeight / (k + semanticRank)
+ * Chunks missing from one list simply get no contribution from it.
+ */
+export function reciprocalRankFusion(
+  lexical: Array<{ chunk: DocumentChunk; score: number }>,
+  semantic: Array<{ chunk: DocumentChunk; score: number }>,
+  options: FusionOptions
+): FusedChunk[] {
+  const fused = new Map<string, FusedChunk>();
+
+  const entryFor = (chunk: DocumentChunk) => {
+    let entry = fused.get(chunk.id);
+    if (!entry) {
+      entry = { chunk, scores: { fused: 0 } };
+      fused.set(chunk.id, entry);
+    }
+    return entry;
+  };
+
+  lexical.forEach(({ chunk, score }, index) => {
+    const entry = entryFor(chunk);
+    entry.scores.lexical = score;
+    entry.scores.lexicalRank = index + 1;
+    entry.scores.fused += options.lexicalWeight / (options.k + index + 1);
+  });
+
+  semantic.forEach(({ chunk, score }, index) => {
+    const entry = entryFor(chunk);
+    entry.scores.semantic = score;
+    entry.scores.semanticRank = index + 1;
+    entry.scores.fused += options.semanticWeight / (options.k + index + 1);
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.scores.fused - a.scores.fused);
+}
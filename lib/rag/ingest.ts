@@ -5,16 +5,22 @@
 
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import JSZip from 'jszip';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
 
 import { FTCDocument } from '../types';
+import { createLogger } from '../logger';
 import { FTC_SOURCES, TOP_TEAM_REPOS, CURRENT_SEASON, CHUNK_SIZE, CHUNK_OVERLAP, DocumentChunk } from './types';
+import { TextChunk, chunkJavaSource, chunkMarkdownSections, chunkRstSections, createLineLocator } from './chunking';
 
 const BRANCH_CANDIDATES = ['main', 'master'];
 const repoArchiveCache = new Map<string, ArrayBuffer>();
 const CACHE_DIR = path.join(process.cwd(), '.rag-cache');
 const DOCUMENTS_CACHE_PATH = path.join(CACHE_DIR, 'documents.json');
 
+const log = createLogger('Ingest');
+
 async function getDefaultBranch(owner: string, repo: string): Promise<string | null> {
   try {
     const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
@@ -25,12 +31,59 @@ async function getDefaultBranch(owner: string, repo: string): Promise<string | n
     const data = await response.json();
     return data.default_branch || null;
   } catch (error) {
-    console.warn(`[Ingest] Failed to fetch default branch for ${owner}/${repo}:`, error);
+    log.warn('Failed to fetch default branch', { repo: `${owner}/${repo}`, error });
+    return null;
+  }
+}
+
+/**
+ * Look for a bundled archive in .rag-cache named like `owner-repo-branch.zip`
+ * (the layout codeload uses), so ingestion works without network access.
+ */
+async function readLocalRepoArchive(owner: string, repo: string) {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(CACHE_DIR);
+  } catch (error) {
     return null;
   }
+
+  const archivesByName = new Map(entries.map(entry => [entry.toLowerCase(), entry]));
+
+  for (const branch of BRANCH_CANDIDATES) {
+    const fileName = archivesByName.get(`${owner}-${repo}-${branch}.zip`.toLowerCase());
+    if (!fileName) continue;
+
+    try {
+      const file = await fs.readFile(path.join(CACHE_DIR, fileName));
+      const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+      log.info('Using local archive', { file: fileName });
+      return { buffer: arrayBuffer, branch };
+    } catch (error) {
+      log.warn('Failed to read local archive', { file: fileName, error });
+    }
+  }
+
+  return null;
 }
 
-async function downloadRepoArchive(owner: string, repo: string) {
+/**
+ * Zip of a repository's default branch: in-memory cache, then .rag-cache, then codeload
+ */
+export async function downloadRepoArchive(owner: string, repo: string) {
+  for (const branch of BRANCH_CANDIDATES) {
+    const cached = repoArchiveCache.get(`${owner}/${repo}/${branch}`);
+    if (cached) {
+      return { buffer: cached, branch };
+    }
+  }
+
+  const local = await readLocalRepoArchive(owner, repo);
+  if (local) {
+    repoArchiveCache.set(`${owner}/${repo}/${local.branch}`, local.buffer);
+    return local;
+  }
+
   const defaultBranch = await getDefaultBranch(owner, repo);
   const branches = [defaultBranch, ...BRANCH_CANDIDATES].filter(
     (b): b is string => Boolean(b)
@@ -53,11 +106,11 @@ async function downloadRepoArchive(owner: string, repo: string) {
       repoArchiveCache.set(cacheKey, arrayBuffer);
       return { buffer: arrayBuffer, branch };
     } catch (error) {
-      console.warn(`[Ingest] Failed to download ${owner}/${repo}@${branch}:`, error);
+      log.warn('Failed to download archive', { repo: `${owner}/${repo}@${branch}`, error });
     }
   }
 
-  console.warn(`[Ingest] Unable to download ${owner}/${repo} (no accessible branch)`);
+  log.warn('Unable to download repository (no accessible branch)', { repo: `${owner}/${repo}` });
   return null;
 }
 
@@ -66,7 +119,11 @@ async function loadCachedDocuments(): Promise<FTCDocument[] | null> {
     const data = await fs.readFile(DOCUMENTS_CACHE_PATH, 'utf-8');
     const parsed = JSON.parse(data);
     if (Array.isArray(parsed)) {
-      console.log(`[Ingest] Loaded ${parsed.length} documents from cache`);
+      log.info('Loaded documents from cache', { documents: parsed.length });
+      // Caches written before team repos carried their own season are re-tagged here
+      (parsed as FTCDocument[]).forEach(doc => {
+        doc.seasonTag = seasonForSource(doc.sourceURL) ?? doc.seasonTag;
+      });
       return parsed as FTCDocument[];
     }
   } catch (error) {
@@ -75,13 +132,22 @@ async function loadCachedDocuments(): Promise<FTCDocument[] | null> {
   return null;
 }
 
+/**
+ * Season a top-team document belongs to, based on its repository URL
+ */
+export function seasonForSource(sourceURL: string): string | undefined {
+  const lower = sourceURL.toLowerCase();
+  const team = TOP_TEAM_REPOS.find(t => lower.startsWith(`${t.url.toLowerCase()}/`));
+  return team?.season;
+}
+
 async function saveDocumentsToCache(docs: FTCDocument[]): Promise<void> {
   try {
     await fs.mkdir(CACHE_DIR, { recursive: true });
     await fs.writeFile(DOCUMENTS_CACHE_PATH, JSON.stringify(docs), 'utf-8');
-    console.log(`[Ingest] Cached ${docs.length} documents to ${DOCUMENTS_CACHE_PATH}`);
+    log.info('Cached documents', { documents: docs.length, path: DOCUMENTS_CACHE_PATH });
   } catch (error) {
-    console.warn('[Ingest] Failed to cache documents:', error);
+    log.warn('Failed to cache documents', { error });
   }
 }
 
@@ -99,21 +165,54 @@ export function chunkText(text: string, chunkSize: number = CHUNK_SIZE, overlap:
   return chunks;
 }
 
+// Fixed-size windows annotated with the line range each window covers
+function chunkTextWithLines(text: string): TextChunk[] {
+  const lineAt = createLineLocator(text);
+  const step = CHUNK_SIZE - CHUNK_OVERLAP;
+
+  return chunkText(text).map((content, index) => {
+    const start = index * step;
+    return {
+      content,
+      startLine: lineAt(start),
+      endLine: lineAt(start + Math.max(content.length - 1, 0)),
+    };
+  });
+}
+
 // Convert FTCDocument to searchable chunks
 export function documentToChunks(doc: FTCDocument): DocumentChunk[] {
-  const textChunks = chunkText(doc.content);
+  const fileName = doc.title.toLowerCase();
+  let textChunks: TextChunk[] | null = null;
+
+  if (fileName.endsWith('.java') || fileName.endsWith('.kt')) {
+    textChunks = chunkJavaSource(doc.content, { kotlin: fileName.endsWith('.kt') });
+  } else if (fileName.endsWith('.md')) {
+    textChunks = chunkMarkdownSections(doc.content);
+  } else if (fileName.endsWith('.rst')) {
+    textChunks = chunkRstSections(doc.content);
+  }
+
+  if (!textChunks || textChunks.length === 0) {
+    textChunks = chunkTextWithLines(doc.content);
+  }
 
-  return textChunks.map((content, index) => ({
+  return textChunks.map((chunk, index) => ({
     id: `${doc.id}-chunk-${index}`,
     documentId: doc.id,
-    content,
+    content: chunk.content,
     metadata: {
       title: doc.title,
       sourceURL: doc.sourceURL,
       seasonTag: doc.seasonTag,
       sourcePriority: doc.sourcePriority,
       chunkIndex: index,
-      totalChunks: textChunks.length,
+      totalChunks: textChunks!.length,
+      symbol: chunk.symbol,
+      breadcrumb: chunk.breadcrumb,
+      page: doc.page,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
     },
   }));
 }
@@ -123,14 +222,14 @@ export function documentToChunks(doc: FTCDocument): DocumentChunk[] {
  * Uses GitHub REST API to fetch Java files from FTC repos
  */
 export async function fetchGitHubContent(repoURL: string, paths: string[]): Promise<FTCDocument[]> {
-  console.log(`[Ingest] Fetching from GitHub: ${repoURL}`);
+  log.info('Fetching from GitHub', { repoURL });
 
   const docs: FTCDocument[] = [];
 
   // Parse GitHub URL: https://github.com/OWNER/REPO
   const match = repoURL.match(/github\.com\/([^\/]+)\/([^\/]+)/);
   if (!match) {
-    console.error('Invalid GitHub URL format');
+    log.error('Invalid GitHub URL format', { repoURL });
     return [];
   }
 
@@ -174,12 +273,12 @@ export async function fetchGitHubContent(repoURL: string, paths: string[]): Prom
             lastUpdated: new Date(),
           });
         } catch (error) {
-          console.error(`Error reading ${normalizedPath}:`, error);
+          log.error('Error reading file', { path: normalizedPath, error });
         }
       })
     );
   } catch (error) {
-    console.error(`GitHub fetch error:`, error);
+    log.error('GitHub fetch failed', { repoURL, error });
   }
 
   return docs;
@@ -190,7 +289,7 @@ export async function fetchGitHubContent(repoURL: string, paths: string[]): Prom
  * Fetches markdown/HTML content and extracts text
  */
 export async function fetchWebContent(baseURL: string, paths?: string[]): Promise<FTCDocument[]> {
-  console.log(`[Ingest] Fetching from web: ${baseURL}`);
+  log.info('Fetching from web', { url: baseURL });
 
   const docs: FTCDocument[] = [];
   const urlsToFetch = paths ? paths.map(p => `${baseURL}${p}`) : [baseURL];
@@ -204,7 +303,7 @@ export async function fetchWebContent(baseURL: string, paths?: string[]): Promis
       });
 
       if (!response.ok) {
-        console.error(`[Ingest] Failed to fetch ${url}: ${response.status}`);
+        log.error('Failed to fetch page', { url, status: response.status });
         continue;
       }
 
@@ -233,7 +332,7 @@ export async function fetchWebContent(baseURL: string, paths?: string[]): Promis
       // Rate limiting
       await new Promise(resolve => setTimeout(resolve, 200));
     } catch (error) {
-      console.error(`[Ingest] Error fetching ${url}:`, error);
+      log.error('Error fetching page', { url, error });
     }
   }
 
@@ -246,7 +345,7 @@ export async function fetchWebContent(baseURL: string, paths?: string[]): Promis
 export async function ingestTopTeams(): Promise<FTCDocument[]> {
   const allDocs: FTCDocument[] = [];
 
-  console.log('[Ingest] Fetching top FTC team repositories...');
+  log.info('Fetching top FTC team repositories');
 
   for (const team of TOP_TEAM_REPOS) {
     try {
@@ -254,13 +353,13 @@ export async function ingestTopTeams(): Promise<FTCDocument[]> {
 
       docs.forEach(doc => {
         doc.sourcePriority = team.priority;
-        doc.seasonTag = doc.seasonTag || CURRENT_SEASON;
+        doc.seasonTag = team.season;
       });
 
       allDocs.push(...docs);
-      console.log(`[Ingest] Loaded ${docs.length} documents from ${team.name}`);
+      log.info('Loaded team repository', { team: team.name, documents: docs.length });
     } catch (error) {
-      console.error(`[Ingest] Failed to load ${team.name}:`, error);
+      log.error('Failed to load team repository', { team: team.name, error });
     }
   }
 
@@ -268,33 +367,102 @@ export async function ingestTopTeams(): Promise<FTCDocument[]> {
 }
 
 /**
- * Fetch PDF content
+ * Read PDF bytes from a remote URL, a `file://` URL or a local path.
+ * Remote PDFs are looked up in .rag-cache by file name first, so a pre-downloaded manual works offline.
  */
-export async function fetchPDFContent(url: string): Promise<FTCDocument[]> {
-  console.log(`[Ingest] Fetching PDF: ${url}`);
+async function readPDFSource(source: string): Promise<Buffer | null> {
+  if (/^https?:\/\//i.test(source)) {
+    const fileName = decodeURIComponent(new URL(source).pathname.split('/').pop() || '');
+    if (fileName) {
+      try {
+        const local = await fs.readFile(path.join(CACHE_DIR, fileName));
+        log.info('Using local PDF', { file: fileName });
+        return local;
+      } catch (error) {
+        // Not cached locally, fall through to download
+      }
+    }
 
-  try {
-    const response = await fetch(url);
+    const response = await fetch(source);
     if (!response.ok) {
-      console.error(`Failed to fetch PDF: ${response.status}`);
-      return [];
+      log.error('Failed to fetch PDF', { url: source, status: response.status });
+      return null;
     }
+    return Buffer.from(await response.arrayBuffer());
+  }
 
-    // For now, create a placeholder document
-    // In production, would use pdf-parse or similar
-    const doc: FTCDocument = {
-      id: `pdf-${url.replace(/[^a-zA-Z0-9]/g, '-')}`,
-      title: url.split('/').pop() || 'Competition Manual',
-      content: `DECODE 2025-26 Competition Manual - Full rules and specifications available at ${url}`,
-      sourceURL: url,
-      seasonTag: CURRENT_SEASON,
-      sourcePriority: 8,
-      lastUpdated: new Date(),
-    };
+  const localPath = source.startsWith('file://') ? fileURLToPath(source) : path.resolve(process.cwd(), source);
+  return fs.readFile(localPath);
+}
 
-    return [doc];
+/**
+ * Extract text per page, keeping page numbers (1-based)
+ */
+export async function extractPDFPages(data: Buffer): Promise<Array<{ page: number; text: string }>> {
+  const pages: Array<{ page: number; text: string }> = [];
+
+  await pdfParse(data, {
+    pagerender: async pageData => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: true });
+
+      // Same line-joining as pdf-parse's default renderer: new line whenever the y position changes
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+
+      const cleaned = text
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+      pages.push({ page: pageData.pageIndex + 1, text: cleaned });
+      return cleaned;
+    },
+  });
+
+  return pages;
+}
+
+/**
+ * Fetch PDF content
+ * Produces one document per page so citations can point at "Competition Manual p. 42"
+ */
+export async function fetchPDFContent(url: string, title: string = 'Competition Manual'): Promise<FTCDocument[]> {
+  log.info('Fetching PDF', { url });
+
+  try {
+    const data = await readPDFSource(url);
+    if (!data) return [];
+
+    const pages = await extractPDFPages(data);
+    const isRemote = /^https?:\/\//i.test(url);
+    const docs: FTCDocument[] = [];
+
+    for (const { page, text } of pages) {
+      if (!text) continue;
+
+      docs.push({
+        id: `pdf-${url.replace(/[^a-zA-Z0-9]/g, '-')}-p${page}`,
+        title: `${title} p. ${page}`,
+        content: text,
+        sourceURL: isRemote ? `${url}#page=${page}` : url,
+        seasonTag: CURRENT_SEASON,
+        sourcePriority: 8,
+        lastUpdated: new Date(),
+        page,
+      });
+    }
+
+    log.info('Extracted PDF pages', { title, pages: `${docs.length}/${pages.length}` });
+    return docs;
   } catch (error) {
-    console.error(`Error fetching PDF ${url}:`, error);
+    log.error('Error fetching PDF', { url, error });
     return [];
   }
 }
@@ -313,12 +481,12 @@ export async function ingestAllSources(options: { force?: boolean } = {}): Promi
   const allDocs: FTCDocument[] = [];
 
   // First, ingest top teams (highest priority after SDK)
-  console.log('[Ingest] Phase 1: Top team repositories');
+  log.info('Phase 1: Top team repositories');
   const teamDocs = await ingestTopTeams();
   allDocs.push(...teamDocs);
 
   // Then ingest official sources
-  console.log('[Ingest] Phase 2: Official FTC sources');
+  log.info('Phase 2: Official FTC sources');
   for (const source of FTC_SOURCES) {
     try {
       let docs: FTCDocument[] = [];
@@ -329,7 +497,7 @@ export async function ingestAllSources(options: { force?: boolean } = {}): Promi
         const paths = 'paths' in source && Array.isArray(source.paths) ? [...source.paths] : undefined;
         docs = await fetchWebContent(source.url, paths);
       } else if (source.type === 'pdf') {
-        docs = await fetchPDFContent(source.url);
+        docs = await fetchPDFContent(source.url, source.name);
       }
 
       // Add metadata
@@ -340,13 +508,13 @@ export async function ingestAllSources(options: { force?: boolean } = {}): Promi
       });
 
       allDocs.push(...docs);
-      console.log(`[Ingest] Loaded ${docs.length} documents from ${source.name}`);
+      log.info('Loaded source', { source: source.name, documents: docs.length });
     } catch (error) {
-      console.error(`[Ingest] Failed to load ${source.name}:`, error);
+      log.error('Failed to load source', { source: source.name, error });
     }
   }
 
-  console.log(`[Ingest] Total documents ingested: ${allDocs.length}`);
+  log.info('Ingestion complete', { documents: allDocs.length });
   await saveDocumentsToCache(allDocs);
   return allDocs;
 }
@@ -355,7 +523,7 @@ export async function ingestAllSources(options: { force?: boolean } = {}): Promi
  * Fetch user's team repository
  */
 export async function fetchUserRepo(repoURL: string): Promise<FTCDocument[]> {
-  console.log(`[Ingest] Fetching user team repository: ${repoURL}`);
+  log.info('Fetching user team repository', { repoURL });
 
   try {
     const docs = await fetchGitHubContent(repoURL, ['TeamCode/src/main/java']);
@@ -365,10 +533,10 @@ export async function fetchUserRepo(repoURL: string): Promise<FTCDocument[]> {
       doc.seasonTag = CURRENT_SEASON;
     });
 
-    console.log(`[Ingest] Loaded ${docs.length} files from user repository`);
+    log.info('Loaded user repository', { files: docs.length });
     return docs;
   } catch (error) {
-    console.error('[Ingest] Failed to fetch user repository:', error);
+    log.error('Failed to fetch user repository', { error });
     return [];
   }
 }
@@ -0,0 +1,182 @@
+/**
+ * Vendor Intent Classification
+ * Detects vendors/libraries from keywords, class prefixes and package names in
+ * vendor-intents.json and turns them into soft retrieval boosts
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { RobotConfig } from '../types';
+import { DocumentChunk, VendorIntent, VENDOR_INTENT_BOOST } from './types';
+import defaultIntents from './vendor-intents.json';
+import { createLogger } from '../logger';
+
+const EXPLICIT_MATCH_CONFIDENCE = 0.6; // per keyword, class or package found in the prompt
+const CONFIG_TOGGLE_CONFIDENCE = 0.3;  // vendor implied only by a robotConfig framework toggle
+
+const log = createLogger('Intents');
+
+export interface VendorMatch {
+  intent: VendorIntent;
+  confidence: number; // 0..1
+  matched: string[];
+}
+
+interface CompiledIntent {
+  intent: VendorIntent;
+  keywordPatterns: Array<{ term: string; pattern: RegExp }>;
+  classPattern: RegExp | null;
+  sources: string[];
+}
+
+let compiledIntents: CompiledIntent[] | null = null;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalizeIntent(entry: Partial<VendorIntent> & { id: string }): VendorIntent {
+  return {
+    id: entry.id,
+    label: entry.label ?? entry.id,
+    keywords: entry.keywords ?? [],
+    classPrefixes: entry.classPrefixes ?? [],
+    packages: entry.packages ?? [],
+    sources: entry.sources ?? [],
+    queryTerms: entry.queryTerms ?? [],
+    configToggles: entry.configToggles ?? [],
+  };
+}
+
+function compileIntent(intent: VendorIntent): CompiledIntent {
+  return {
+    intent,
+    // "road runner" also matches "roadrunner" and "road-runner"; plurals match too
+    keywordPatterns: intent.keywords.map(term => ({
+      term,
+      pattern: new RegExp(`\\b${escapeRegExp(term).replace(/\s+/g, '[\\s_-]*')}s?\\b`, 'i'),
+    })),
+    classPattern: intent.classPrefixes.length > 0
+      ? new RegExp(`\\b(?:${intent.classPrefixes.map(escapeRegExp).join('|')})\\w*`)
+      : null,
+    sources: intent.sources.map(source => source.toLowerCase()),
+  };
+}
+
+/**
+ * Built-in table merged with an optional JSON file at RAG_VENDOR_INTENTS.
+ * Entries in that file add vendors or override built-in ones by id.
+ */
+function loadIntents(): CompiledIntent[] {
+  const table = new Map<string, VendorIntent>();
+  for (const entry of defaultIntents as VendorIntent[]) {
+    table.set(entry.id, normalizeIntent(entry));
+  }
+
+  const extraPath = process.env.RAG_VENDOR_INTENTS;
+  if (extraPath) {
+    try {
+      const extra = JSON.parse(fs.readFileSync(path.resolve(extraPath), 'utf-8'));
+      if (!Array.isArray(extra)) {
+        throw new Error('expected a JSON array of vendor intents');
+      }
+
+      for (const entry of extra) {
+        if (!entry || typeof entry.id !== 'string') continue;
+        table.set(entry.id, normalizeIntent({ ...table.get(entry.id), ...entry }));
+      }
+      log.info('Loaded vendor intents', { count: extra.length, path: extraPath });
+    } catch (error) {
+      log.warn('Failed to load vendor intents', { path: extraPath, error });
+    }
+  }
+
+  return Array.from(table.values()).map(compileIntent);
+}
+
+function getCompiledIntents(): CompiledIntent[] {
+  if (!compiledIntents) {
+    compiledIntents = loadIntents();
+  }
+  return compiledIntents;
+}
+
+export function getVendorIntents(): VendorIntent[] {
+  return getCompiledIntents().map(compiled => compiled.intent);
+}
+
+/**
+ * Score every vendor against the prompt (and robot config toggles).
+ * Several vendors can match; callers boost each by its confidence.
+ */
+export function classifyVendorIntents(
+  text: string,
+  robotConfig?: Partial<RobotConfig>
+): VendorMatch[] {
+  const matches: VendorMatch[] = [];
+
+  for (const { intent, keywordPatterns, classPattern } of getCompiledIntents()) {
+    const matched: string[] = [];
+
+    // Overlapping keywords ("apriltag" / "april tag") count once per distinct span
+    const spans = new Set<string>();
+    for (const { term, pattern } of keywordPatterns) {
+      const span = text.match(pattern)?.[0].toLowerCase().replace(/[\s_-]+/g, '');
+      if (span && !spans.has(span)) {
+        spans.add(span);
+        matched.push(term);
+      }
+    }
+
+    const className = classPattern ? text.match(classPattern)?.[0] : undefined;
+    if (className && !matched.some(term => term.toLowerCase() === className.toLowerCase())) {
+      matched.push(className);
+    }
+
+    for (const pkg of intent.packages) {
+      if (text.includes(pkg)) matched.push(pkg);
+    }
+
+    let confidence = matched.length * EXPLICIT_MATCH_CONFIDENCE;
+
+    const toggles = robotConfig?.frameworkToggles as Record<string, boolean> | undefined;
+    const enabledToggles = (intent.configToggles ?? []).filter(toggle => toggles?.[toggle]);
+    if (enabledToggles.length > 0) {
+      confidence += CONFIG_TOGGLE_CONFIDENCE;
+      matched.push(...enabledToggles.map(toggle => `robotConfig.${toggle}`));
+    }
+
+    if (confidence > 0) {
+      matches.push({ intent, confidence: Math.min(1, confidence), matched });
+    }
+  }
+
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Whether a chunk belongs to a vendor: it comes from one of the vendor's sources,
+ * or its code imports the vendor's packages / uses its classes
+ */
+function chunkMatchesIntent(chunk: DocumentChunk, compiled: CompiledIntent): boolean {
+  const sourceURL = chunk.metadata.sourceURL.toLowerCase();
+  if (compiled.sources.some(source => sourceURL.startsWith(source))) return true;
+  if (compiled.intent.packages.some(pkg => chunk.content.includes(pkg))) return true;
+  return compiled.classPattern ? compiled.classPattern.test(chunk.content) : false;
+}
+
+/**
+ * Score multiplier for a chunk given detected vendor confidences (vendor id -> confidence)
+ */
+export function vendorBoost(chunk: DocumentChunk, vendorConfidences: Record<string, number>): number {
+  let best = 0;
+
+  for (const compiled of getCompiledIntents()) {
+    const confidence = vendorConfidences[compiled.intent.id];
+    if (!confidence || confidence <= best) continue;
+    if (chunkMatchesIntent(chunk, compiled)) best = confidence;
+  }
+
+  return 1 + VENDOR_INTENT_BOOST * best;
+}
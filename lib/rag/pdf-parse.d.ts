@@ -0,0 +1,33 @@
+/**
+ * Minimal typings for pdf-parse's library entry point.
+ * The package root runs a debug harness when bundled, so ingestion imports `lib/pdf-parse.js` directly.
+ */
+
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface PDFTextItem {
+    str: string;
+    transform: number[];
+  }
+
+  interface PDFPageProxy {
+    pageIndex: number;
+    getTextContent(options?: {
+      normalizeWhitespace?: boolean;
+      disableCombineTextItems?: boolean;
+    }): Promise<{ items: PDFTextItem[] }>;
+  }
+
+  interface PDFParseResult {
+    numpages: number;
+    numrender: number;
+    text: string;
+    info: Record<string, unknown> | null;
+  }
+
+  function pdfParse(
+    data: Buffer,
+    options?: { pagerender?: (page: PDFPageProxy) => Promise<string>; max?: number }
+  ): Promise<PDFParseResult>;
+
+  export = pdfParse;
+}
@@ -1,110 +1,109 @@
 /**
  * RAG Query and Retrieval Logic
- * Hybrid search: embeddings (if available) + BM25 text matching
+ * Hybrid search: BM25 + embeddings (if available), fused with reciprocal rank fusion
  */
 
-import { FTCDocument, RAGQuery, RAGResult } from '../types';
+import { FTCDocument, ProviderConfig, RAGQuery, RAGResult, RetrievalPreferences, RetrievedChunk } from '../types';
 import { documentToChunks, ingestAllSources, fetchUserRepo } from './ingest';
-import { DEFAULT_TOP_K, RELEVANCE_THRESHOLD, DocumentChunk, SOURCE_WEIGHT, SourcePriority } from './types';
-import { OpenAIEmbeddings, cosineSimilarity } from './embeddings';
+import {
+  DEFAULT_TOP_K,
+  RELEVANCE_THRESHOLD,
+  DocumentChunk,
+  SOURCE_WEIGHT,
+  SourcePriority,
+  HYBRID_CANDIDATES,
+  HYBRID_FUSION,
+  RERANK_CANDIDATES,
+  RERANK_BLEND,
+  CURRENT_SEASON,
+  SEASONS,
+  OFF_SEASON_WEIGHT,
+} from './types';
+import { getEmbeddingProvider } from './embeddings';
+import { BM25Index } from './bm25';
+import { FileVectorStore } from './vector-store';
+import { reciprocalRankFusion } from './fusion';
+import { classifyVendorIntents, vendorBoost } from './intents';
+import { LLMReranker, LocalReranker, Reranker } from './rerank';
+import { assembleContext, PromptContext } from './context';
+import { createLogger } from '../logger';
+
+const log = createLogger('RAG');
 
 // In-memory stores
 let documentStore: FTCDocument[] = [];
 let chunkStore: DocumentChunk[] = [];
+const bm25Index = new BM25Index();
 let isInitialized = false;
 let initPromise: Promise<void> | null = null;
-let embeddings: OpenAIEmbeddings | null = null;
-let useEmbeddings = false;
+let vectorStore: FileVectorStore | null = null;
+let embeddingProviderId: string | null = null;
+
+interface InitOptions {
+  force?: boolean;
+  embeddingProvider?: string; // registry id ('openai' | 'local' | ...), or 'none' for BM25 only
+}
 
 /**
- * BM25 scoring for text relevance
+ * Pick the embedding backend: explicit choice, else OpenAI when a key is given,
+ * else RAG_EMBEDDINGS from the environment, else the local hashing model
  */
-function bm25Score(query: string, document: string, avgDocLength: number): number {
-  const k1 = 1.5;
-  const b = 0.75;
-
-  const queryTerms = query.toLowerCase().split(/\s+/);
-  const docTerms = document.toLowerCase().split(/\s+/);
-  const docLength = docTerms.length;
-
-  let score = 0;
-
-  for (const term of queryTerms) {
-    const termFreq = docTerms.filter(t => t.includes(term) || term.includes(t)).length;
-    if (termFreq === 0) continue;
-
-    // IDF approximation (simplified)
-    const idf = Math.log(1 + 1 / (termFreq + 1));
-
-    // BM25 formula
-    const numerator = termFreq * (k1 + 1);
-    const denominator = termFreq + k1 * (1 - b + b * (docLength / avgDocLength));
-
-    score += idf * (numerator / denominator);
+function selectEmbeddingProvider(openaiApiKey?: string, requested?: string): void {
+  const providerId = requested || (openaiApiKey ? 'openai' : process.env.RAG_EMBEDDINGS || 'local');
+  const provider = providerId === 'none' ? undefined : getEmbeddingProvider(providerId);
+
+  if (!provider) {
+    vectorStore = null;
+    embeddingProviderId = null;
+    log.info('Using BM25 text matching (no embeddings)');
+    return;
   }
 
-  return score;
+  try {
+    vectorStore = new FileVectorStore(provider.create({ apiKey: openaiApiKey }));
+    embeddingProviderId = provider.id;
+    log.info('Using embeddings for semantic search', { backend: provider.label });
+  } catch (error) {
+    log.warn('Failed to initialize embeddings, falling back to BM25', { error });
+    vectorStore = null;
+    embeddingProviderId = null;
+  }
 }
 
 /**
  * Initialize RAG system with optional embeddings
  */
-async function runInitialization(openaiApiKey?: string, options: { force?: boolean } = {}) {
-  console.log('[RAG] Initializing RAG system...');
+async function runInitialization(openaiApiKey?: string, options: InitOptions = {}) {
+  log.info('Initializing RAG system', { force: options.force });
+  const started = Date.now();
 
-  if (openaiApiKey) {
-    try {
-      embeddings = new OpenAIEmbeddings(openaiApiKey);
-      useEmbeddings = true;
-      console.log('[RAG] Using OpenAI embeddings for semantic search');
-    } catch (error) {
-      console.warn('[RAG] Failed to initialize embeddings, falling back to BM25:', error);
-      embeddings = null;
-      useEmbeddings = false;
-    }
-  } else {
-    embeddings = null;
-    useEmbeddings = false;
-    console.log('[RAG] Using BM25 text matching (no embeddings)');
-  }
+  selectEmbeddingProvider(openaiApiKey, options.embeddingProvider);
 
-  console.log('[RAG] Ingesting documents...');
+  log.info('Ingesting documents');
   const docs = await ingestAllSources({ force: options.force });
   documentStore = docs;
 
-  console.log('[RAG] Creating chunks...');
+  log.info('Creating chunks', { documents: docs.length });
   chunkStore = [];
   for (const doc of docs) {
     const chunks = documentToChunks(doc);
     chunkStore.push(...chunks);
   }
 
-  if (useEmbeddings && embeddings) {
-    console.log(`[RAG] Generating embeddings for ${chunkStore.length} chunks...`);
-    const texts = chunkStore.map(c => c.content);
-    const batchSize = 100;
+  bm25Index.clear();
+  bm25Index.addChunks(chunkStore);
+  log.info('Built BM25 index', { chunks: bm25Index.size, terms: bm25Index.termCount });
 
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const batchEmbeddings = await embeddings.embedTexts(batch);
-
-      for (let j = 0; j < batch.length; j++) {
-        chunkStore[i + j].embedding = batchEmbeddings[j];
-      }
-
-      console.log(`[RAG] Progress: ${Math.min(i + batchSize, texts.length)}/${texts.length} chunks embedded`);
-
-      if (i + batchSize < texts.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+  if (vectorStore) {
+    log.info('Loading embeddings', { chunks: chunkStore.length });
+    await vectorStore.addDocuments(chunkStore);
   }
 
   isInitialized = true;
-  console.log('[RAG] Initialization complete!');
+  log.info('Initialization complete', { documents: documentStore.length, chunks: chunkStore.length, durationMs: Date.now() - started });
 }
 
-export async function initializeRAG(openaiApiKey?: string, options: { force?: boolean } = {}): Promise<void> {
+export async function initializeRAG(openaiApiKey?: string, options: InitOptions = {}): Promise<void> {
   if (isInitialized && !options.force) {
     return;
   }
@@ -114,11 +113,12 @@ export async function initializeRAG(openaiApiKey?: string, options: { force?: bo
       isInitialized = false;
       documentStore = [];
       chunkStore = [];
+      bm25Index.clear();
     }
 
     initPromise = runInitialization(openaiApiKey, options)
       .catch(error => {
-        console.error('[RAG] Initialization failed:', error);
+        log.error('Initialization failed', { error });
         isInitialized = false;
         throw error;
       })
@@ -138,7 +138,7 @@ export function ensureRAGInitialized(): Promise<void> {
   if (!initPromise) {
     initPromise = runInitialization()
       .catch(error => {
-        console.error('[RAG] Auto-initialization failed:', error);
+        log.error('Auto-initialization failed', { error });
         isInitialized = false;
         throw error;
       })
@@ -152,19 +152,20 @@ export function ensureRAGInitialized(): Promise<void> {
 
 // Auto-start initialization on module load (BM25 mode)
 ensureRAGInitialized().catch(error => {
-  console.error('[RAG] Background initialization failed:', error);
+  log.error('Background initialization failed', { error });
 });
 
 /**
  * Add user repository to RAG
  */
 export async function addUserRepository(repoURL: string, openaiApiKey?: string): Promise<void> {
-  if (openaiApiKey && (!embeddings || !useEmbeddings)) {
-    embeddings = new OpenAIEmbeddings(openaiApiKey);
-    useEmbeddings = true;
+  if (openaiApiKey && embeddingProviderId !== 'openai') {
+    selectEmbeddingProvider(openaiApiKey, 'openai');
+    // Embed the existing corpus too (cached vectors are reused) so every chunk shares one vector space
+    await vectorStore?.addDocuments(chunkStore);
   }
 
-  console.log('[RAG] Adding user repository...');
+  log.info('Adding user repository', { repoURL });
   const userDocs = await fetchUserRepo(repoURL);
   documentStore.push(...userDocs);
 
@@ -172,216 +173,244 @@ export async function addUserRepository(repoURL: string, openaiApiKey?: string):
   for (const doc of userDocs) {
     const chunks = documentToChunks(doc);
 
-    if (useEmbeddings && embeddings) {
-      const texts = chunks.map(c => c.content);
-      const chunkEmbeddings = await embeddings.embedTexts(texts);
-
-      for (let i = 0; i < chunks.length; i++) {
-        chunks[i].embedding = chunkEmbeddings[i];
-      }
+    if (vectorStore) {
+      await vectorStore.addDocuments(chunks);
     }
 
     chunkStore.push(...chunks);
+    bm25Index.addChunks(chunks);
   }
 
-  console.log(`[RAG] Added ${userDocs.length} files from user repository`);
+  log.info('Added user repository', { files: userDocs.length });
 }
 
 /**
  * Apply priority weighting to scores
- * Lower priority number = higher weight
+ * Lower priority number = higher weight; per-request overrides win over SOURCE_WEIGHT
  */
-function applyPriorityWeighting(score: number, priority: number): number {
-  const weight = SOURCE_WEIGHT[priority as keyof typeof SOURCE_WEIGHT] ?? 1;
+function applyPriorityWeighting(score: number, priority: number, overrides: Record<number, number> = {}): number {
+  const weight = overrides[priority] ?? SOURCE_WEIGHT[priority as keyof typeof SOURCE_WEIGHT] ?? 1;
   return score * weight;
 }
 
 /**
- * Query using hybrid search (embeddings or BM25)
+ * Keep only finite, non-negative weights from client-supplied overrides
+ */
+function sanitizeWeights(weights: Record<number, number> | undefined): Record<number, number> {
+  const sanitized: Record<number, number> = {};
+  for (const [priority, weight] of Object.entries(weights ?? {})) {
+    if (typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+      sanitized[Number(priority)] = weight;
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * "DECODE" matches "DECODE 2025-26"; comparison ignores case, spacing and punctuation
+ */
+function matchesSeason(seasonTag: string, filter: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const tag = normalize(seasonTag);
+  const wanted = normalize(filter);
+  return tag.startsWith(wanted) || wanted.startsWith(tag);
+}
+
+/**
+ * Query using hybrid search: BM25 and embeddings fused with reciprocal rank fusion
  */
 export async function queryRAG(query: RAGQuery): Promise<RAGResult> {
   if (!isInitialized) {
-    console.warn('[RAG] System not initialized, returning empty results');
+    log.warn('System not initialized, returning empty results');
     return { documents: [], scores: [] };
   }
 
   const topK = query.topK || DEFAULT_TOP_K;
-
-  const vendorHint = /limelight/i.test(query.query)
-    ? SourcePriority.LIMELIGHT
-    : /road ?runner/i.test(query.query)
-    ? SourcePriority.ROADRUNNER
-    : /ftc ?lib/i.test(query.query)
-    ? SourcePriority.FTCLIB
-    : null;
-
-  let chunkPool = chunkStore;
-  if (vendorHint) {
-    const vendorChunks = chunkStore.filter(
-      chunk => chunk.metadata.sourcePriority === vendorHint
-    );
-    if (vendorChunks.length > 0) {
-      chunkPool = vendorChunks;
-    }
-  }
-
-  const tokens = query.query
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter(token => token.length > 2);
-
-  const vendorKeywords: Record<number, string[]> = {
-    [SourcePriority.LIMELIGHT]: ['limelight', 'llresult', 'limelight3a', 'detectorresult'],
-    [SourcePriority.ROADRUNNER]: ['roadrunner', 'trajectory', 'driveconstants'],
-    [SourcePriority.FTCLIB]: ['ftclib', 'commandscheduler', 'subsystem'],
-  };
-
-  const keywordWeights = new Map<string, number>();
-  tokens.forEach(token => {
-    keywordWeights.set(token, (keywordWeights.get(token) || 0) + 1);
-  });
-
-  function keywordScore(text: string, priority: number): number {
-    let score = 0;
-    const lower = text.toLowerCase();
-
-    keywordWeights.forEach((weight, token) => {
-      if (token.length < 3) return;
-      const occurrences = lower.split(token).length - 1;
-      if (occurrences > 0) {
-        score += occurrences * (weight + 1);
-      }
+  const weightOverrides = sanitizeWeights(query.sourcePriorityWeights);
+  const seasonFilter = query.seasonFilter?.trim() || undefined;
+  const seasonFilterMode = query.seasonFilterMode ?? 'downweight';
+
+  if (seasonFilter || Object.keys(weightOverrides).length > 0) {
+    log.debug('Retrieval preferences', {
+      seasonFilter: seasonFilter ? `${seasonFilter} (${seasonFilterMode})` : 'all seasons',
+      sourcePriorityWeights: weightOverrides,
     });
-
-    if (vendorKeywords[priority]) {
-      for (const kw of vendorKeywords[priority]) {
-        if (lower.includes(kw)) {
-          score += 10;
-        }
-      }
-    }
-
-    return score;
   }
 
-  let scoredChunks: Array<{ chunk: DocumentChunk; score: number }> = [];
-
-  if (useEmbeddings && embeddings) {
-    // Semantic search with embeddings
-    const queryEmbedding = await embeddings.embedQuery(query.query);
+  // Only team code belongs to a season; SDK samples, library docs, manuals and user repos
+  // are tagged with the current season but apply to every season, so the filter skips them
+  const isOffSeason = (chunk: DocumentChunk) =>
+    seasonFilter !== undefined &&
+    chunk.metadata.sourcePriority === SourcePriority.TOP_TEAMS &&
+    !matchesSeason(chunk.metadata.seasonTag, seasonFilter);
+
+  // A weight of 0 removes a source entirely; the season filter can remove other seasons' team code
+  const isExcluded = (chunk: DocumentChunk) =>
+    weightOverrides[chunk.metadata.sourcePriority] === 0 ||
+    (seasonFilterMode === 'exclude' && isOffSeason(chunk));
+
+  const seasonWeight = (chunk: DocumentChunk) =>
+    seasonFilterMode === 'downweight' && isOffSeason(chunk) ? OFF_SEASON_WEIGHT : 1;
+
+  // Soft vendor boosts (Limelight, Pedro Pathing, Pinpoint, ...) from the intent table
+  const vendorConfidences = query.vendorIntents ?? Object.fromEntries(
+    classifyVendorIntents(query.query).map(match => [match.intent.id, match.confidence])
+  );
+  if (Object.keys(vendorConfidences).length > 0) {
+    log.debug('Vendor intents', { vendors: vendorConfidences });
+  }
 
-    scoredChunks = chunkPool
-      .filter(chunk => chunk.embedding)
-      .map(chunk => {
-        let score = cosineSimilarity(queryEmbedding, chunk.embedding!);
-        score = applyPriorityWeighting(score, chunk.metadata.sourcePriority);
-        return { chunk, score };
-      });
-  } else {
-    // BM25 text matching
-    const avgDocLength = chunkPool.reduce((sum, c) => sum + c.content.split(/\s+/).length, 0) / chunkPool.length;
+  // Lexical (BM25 inverted index) and semantic (vector store) retrieval run side by side
+  const timings: Record<string, number> = {};
+  let stageStart = Date.now();
+  const candidateFilter = (chunk: DocumentChunk) => !isExcluded(chunk);
+  const queryEmbedding = vectorStore ? vectorStore.embedQuery(query.query) : Promise.resolve(null);
+  const [lexicalHits, semanticHits] = await Promise.all([
+    Promise.resolve(bm25Index.search(query.query, { filter: candidateFilter }).slice(0, HYBRID_CANDIDATES)),
+    queryEmbedding.then(embedding =>
+      vectorStore && embedding
+        ? vectorStore.similaritySearchByVector(embedding, HYBRID_CANDIDATES, { filter: candidateFilter })
+        : []
+    ),
+  ]);
+  timings.searchMs = Date.now() - stageStart;
+
+  const fusion = { ...HYBRID_FUSION, ...query.fusion };
+  const candidates = reciprocalRankFusion(lexicalHits, semanticHits, fusion)
+    .map(({ chunk, scores }) => {
+      // Source preference, season and vendor intent apply to both stages
+      const multiplier =
+        applyPriorityWeighting(1, chunk.metadata.sourcePriority, weightOverrides) *
+        seasonWeight(chunk) *
+        vendorBoost(chunk, vendorConfidences);
+      const relevance = scores.fused;
+      scores.fused *= multiplier;
+      return { chunk, score: scores.fused, relevance, multiplier, details: scores };
+    })
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RERANK_CANDIDATES);
+
+  // Second stage: rescore the best candidates against the query
+  const reranker = createReranker(query.rerank, await queryEmbedding);
+  if (reranker && candidates.length > 0) {
+    const rerankQuery = query.rerank?.query || query.query;
+    const chunks = candidates.map(item => item.chunk);
+    stageStart = Date.now();
+
+    let rerankScores: number[];
+    try {
+      rerankScores = await reranker.rerank(rerankQuery, chunks);
+    } catch (error) {
+      log.warn('Reranker failed, falling back to local reranking', { reranker: reranker.id, error });
+      rerankScores = await new LocalReranker(await queryEmbedding).rerank(rerankQuery, chunks);
+    }
 
-    scoredChunks = chunkPool.map(chunk => {
-      let score = keywordScore(chunk.content, chunk.metadata.sourcePriority);
-      if (score === 0) {
-        score = bm25Score(query.query, chunk.content, avgDocLength);
-      }
-      score = applyPriorityWeighting(score, chunk.metadata.sourcePriority);
-      return { chunk, score };
+    const maxRelevance = Math.max(...candidates.map(item => item.relevance)) || 1;
+    candidates.forEach((item, i) => {
+      item.details.rerank = rerankScores[i];
+      const blended = RERANK_BLEND * rerankScores[i] + (1 - RERANK_BLEND) * (item.relevance / maxRelevance);
+      item.score = blended * item.multiplier;
     });
+    candidates.sort((a, b) => b.score - a.score);
+    timings.rerankMs = Date.now() - stageStart;
   }
 
-  // Sort by score and take top K
-  scoredChunks.sort((a, b) => b.score - a.score);
-  const topChunks = scoredChunks
-    .filter(item => item.score > 0) // Any positive score
-    .slice(0, topK);
-
-  // Group chunks back to documents
-  const docMap = new Map<string, { doc: FTCDocument; score: number }>();
-
-  for (const item of topChunks) {
-    const docId = item.chunk.documentId;
-    const doc = documentStore.find(d => d.id === docId);
-
-    if (doc) {
-      const existing = docMap.get(docId);
-      if (!existing || item.score > existing.score) {
-        docMap.set(docId, { doc, score: item.score });
-      }
+  const rankedChunks: RetrievedChunk[] = [];
+  for (const item of candidates) {
+    if (rankedChunks.length >= topK) break;
+    const document = documentStore.find(d => d.id === item.chunk.documentId);
+    if (document) {
+      rankedChunks.push({ chunk: item.chunk, document, score: item.score, scores: item.details });
     }
   }
 
-  let results = Array.from(docMap.values());
-  results.sort((a, b) => b.score - a.score);
-
-  if (vendorHint) {
-    results = results.filter(r => r.doc.sourcePriority === vendorHint);
-    if (results.length === 0) {
-      const vendorDocs = chunkStore
-        .filter(chunk => chunk.metadata.sourcePriority === vendorHint)
-        .map(chunk => ({
-          doc: documentStore.find(d => d.id === chunk.documentId)!,
-          score: 1,
-        }))
-        .filter(r => r.doc)
-        .slice(0, topK);
-      results = vendorDocs;
-    }
+  // Documents in order of their best chunk
+  const results: RetrievedChunk[] = [];
+  const seenDocuments = new Set<string>();
+  for (const ranked of rankedChunks) {
+    if (seenDocuments.has(ranked.document.id)) continue;
+    seenDocuments.add(ranked.document.id);
+    results.push(ranked);
   }
 
+  // Retrieval trace: counts and stage timings at info, the ranking itself at debug
+  log.info('Retrieved', {
+    documents: results.length,
+    chunks: rankedChunks.length,
+    lexicalHits: lexicalHits.length,
+    semanticHits: semanticHits.length,
+    candidates: candidates.length,
+    reranker: reranker?.id ?? 'none',
+    ...timings,
+  });
   if (results.length > 0) {
-    console.log('[RAG] Top documents:', results.slice(0, 5).map(r => ({
-      title: r.doc.title,
-      source: r.doc.sourceURL,
-      priority: r.doc.sourcePriority,
-      score: r.score.toFixed(3),
-    })));
+    log.debug('Top documents', {
+      query: query.query.slice(0, 120),
+      top: results.slice(0, 5).map(r => ({
+        title: r.document.title,
+        source: r.document.sourceURL,
+        priority: r.document.sourcePriority,
+        score: r.score.toFixed(4),
+        lexical: r.scores.lexical?.toFixed(3),
+        semantic: r.scores.semantic?.toFixed(3),
+        rerank: r.scores.rerank?.toFixed(3),
+      })),
+    });
   } else {
-    console.warn('[RAG] No documents matched query:', query.query.slice(0, 120));
+    log.warn('No documents matched query', { query: query.query.slice(0, 120) });
   }
 
   return {
-    documents: results.map(r => r.doc),
+    documents: results.map(r => r.document),
     scores: results.map(r => r.score),
+    chunks: results.map(r => r.chunk),
+    scoreDetails: results.map(r => r.scores),
+    rankedChunks,
   };
 }
 
 /**
- * Format retrieved documents into context string for AI prompt
+ * Reranker for a query: local by default, LLM when requested with a key, none to skip
  */
-export function formatContextForPrompt(result: RAGResult): string {
-  if (result.documents.length === 0) {
-    return `# NO RELEVANT DOCUMENTATION FOUND
+function createReranker(options: RAGQuery['rerank'], queryEmbedding: number[] | null): Reranker | null {
+  const type = options?.type ?? 'local';
+  if (type === 'none') return null;
 
-CRITICAL: You do not have any retrieved documentation for this query.
-You MUST tell the user that you don't have the specific information and cannot generate code without proper documentation.`;
+  if (type === 'llm') {
+    try {
+      if (options?.llm) {
+        return new LLMReranker(options.llm, options.model);
+      }
+      log.warn('LLM reranking requested without provider credentials, using local reranker');
+    } catch (error) {
+      log.warn('LLM reranker unavailable, using local reranker', { error });
+    }
   }
 
-  const MAX_TOTAL_CHARS = 8000;
-  const MAX_PER_DOC = 1500;
-  let used = 0;
-  let context = `# Retrieved FTC Source Code and Documentation
-
-IMPORTANT: Use only these sources. If the needed API/class isn’t here, state that explicitly.
-
-`;
-
-  for (let i = 0; i < result.documents.length; i++) {
-    if (used >= MAX_TOTAL_CHARS) break;
-    const doc = result.documents[i];
-    const snippet = doc.content.slice(0, MAX_PER_DOC);
-    const block = `## Source [${i + 1}] - ${doc.title}
-URL: ${doc.sourceURL}
-Priority: ${doc.sourcePriority}
+  return new LocalReranker(queryEmbedding);
+}
 
-\n\n${snippet}\n\n---\n\n`;
+/**
+ * Format retrieved documents into context string for AI prompt,
+ * along with the sources it cites so clients can link them
+ */
+export function formatContextForPrompt(result: RAGResult, options: { maxTokens?: number } = {}): PromptContext {
+  if (result.documents.length === 0) {
+    return {
+      context: `# NO RELEVANT DOCUMENTATION FOUND
 
-    context += block;
-    used += block.length;
+CRITICAL: You do not have any retrieved documentation for this query.
+You MUST tell the user that you don't have the specific information and cannot generate code without proper documentation.`,
+      sources: [],
+    };
   }
 
-  return context;
+  return assembleContext(result, {
+    maxTokens: options.maxTokens,
+    getChunk: (documentId, index) =>
+      chunkStore.find(chunk => chunk.documentId === documentId && chunk.metadata.chunkIndex === index),
+  });
 }
 
 /**
@@ -390,73 +419,46 @@ Priority: ${doc.sourcePriority}
 export async function queryWithRobotContext(
   userPrompt: string,
   robotConfig: any,
-  topK: number = DEFAULT_TOP_K
+  topK: number = DEFAULT_TOP_K,
+  preferences: Partial<RetrievalPreferences> = {},
+  llm?: ProviderConfig
 ): Promise<RAGResult> {
-  // Build enhanced query with specific technical terms
-  const configTerms: string[] = [];
-  const vendorTerms: string[] = [];
-  const classNames: string[] = [];
-
-  // Extract technical keywords from prompt
-  const promptLower = userPrompt.toLowerCase();
-
-  if (promptLower.includes('limelight')) {
-    configTerms.push('Limelight3A LLResult DetectorResult getLatestResult');
-    classNames.push('com.qualcomm.hardware.limelightvision');
-    vendorTerms.push('limelight limelightvision limelight3a sensorlimelight3a');
-  }
-
-  if (promptLower.includes('road runner') || promptLower.includes('roadrunner')) {
-    configTerms.push('Trajectory MecanumDrive DriveConstants followTrajectory');
-    classNames.push('com.acmerobotics.roadrunner');
-  }
-
-  if (promptLower.includes('ftclib')) {
-    configTerms.push('CommandOpMode Subsystem Command');
-    classNames.push('com.arcrobotics.ftclib');
-  }
-
-  if (promptLower.includes('apriltag') || promptLower.includes('vision')) {
-    configTerms.push('VisionPortal AprilTagProcessor AprilTagDetection');
-  }
-
-  if (robotConfig.driveType) {
-    configTerms.push(robotConfig.driveType);
-  }
-
-  if (robotConfig.frameworkToggles?.roadrunner) {
-    configTerms.push('trajectory pose follower');
-  }
-
-  if (robotConfig.frameworkToggles?.ftclib) {
-    configTerms.push('command subsystem scheduler');
-  }
+  // Vendors named in the prompt or enabled in the robot config expand the query
+  // with their class names and boost their chunks
+  const vendorMatches = classifyVendorIntents(userPrompt, robotConfig);
+  const vendorTerms = vendorMatches.flatMap(match => match.intent.queryTerms);
+  const configTerms = robotConfig?.driveType ? [robotConfig.driveType] : [];
 
-  if (robotConfig.frameworkToggles?.externalVision) {
-    configTerms.push('limelight detector neural network');
-    vendorTerms.push('limelight3a limelightvision llresult');
-  }
-
-  if (/limelight/i.test(userPrompt)) {
-    vendorTerms.push('limelight limelightvision limelight3a limelightresult sensorlimelight3a');
-  }
-
-  if (/road ?runner/i.test(userPrompt)) {
-    vendorTerms.push('road runner DriveConstants SampleMecanumDrive');
-  }
-
-  if (/ftc ?lib/i.test(userPrompt)) {
-    vendorTerms.push('FTCLib CommandScheduler SubsystemBase');
-  }
-
-  const enhancedQuery = `${userPrompt} ${configTerms.join(' ')} ${classNames.join(' ')} ${vendorTerms.join(' ')}`;
+  const enhancedQuery = [userPrompt, ...configTerms, ...vendorTerms].join(' ');
 
   return queryRAG({
     query: enhancedQuery,
     topK,
+    seasonFilter: resolveSeasonFilter(userPrompt, preferences.seasonFilter),
+    seasonFilterMode: preferences.seasonFilterMode,
+    sourcePriorityWeights: preferences.sourcePriorityWeights,
+    vendorIntents: Object.fromEntries(vendorMatches.map(match => [match.intent.id, match.confidence])),
+    rerank: {
+      type: preferences.reranker ?? 'local',
+      query: userPrompt,
+      llm,
+    },
   });
 }
 
+/**
+ * 'auto' targets the current season unless the prompt names a past one,
+ * in which case older team code should not be pushed down
+ */
+function resolveSeasonFilter(userPrompt: string, setting: string = 'auto'): string | undefined {
+  if (setting === 'all') return undefined;
+  if (setting !== 'auto') return setting;
+
+  const mentioned = SEASONS.find(season => season.pattern.test(userPrompt));
+  if (mentioned && mentioned.tag !== CURRENT_SEASON) return undefined;
+  return CURRENT_SEASON;
+}
+
 /**
  * Get RAG system status
  */
@@ -464,9 +466,13 @@ export function getRAGStatus() {
   return {
     initialized: isInitialized,
     initializing: !!initPromise,
-    searchMode: useEmbeddings ? 'semantic' : 'bm25',
+    searchMode: vectorStore ? 'hybrid' : 'bm25',
+    embeddingBackend: embeddingProviderId,
+    embeddingBackendLabel: embeddingProviderId ? getEmbeddingProvider(embeddingProviderId)?.label ?? embeddingProviderId : null,
+    embeddingModel: vectorStore?.modelId ?? null,
     documentCount: documentStore.length,
     chunkCount: chunkStore.length,
+    indexedTerms: bm25Index.termCount,
     embeddedChunks: chunkStore.filter(c => c.embedding).length,
   };
 }
@@ -0,0 +1,200 @@
+/**
+ * Second-stage Reranking
+ * Rescores the top fused candidates against the query, either locally
+ * (term coverage, phrase and identifier matches, embedding similarity) or with an LLM
+ */
+
+import { ProviderConfig } from '../types';
+import { createProvider, LLMProvider } from '../providers';
+import { DocumentChunk, LLM_RERANK_MODELS } from './types';
+import { tokenize } from './bm25';
+import { cosineSimilarity } from './embeddings';
+
+export interface Reranker {
+  readonly id: string;
+  /** Relevance in [0, 1] for each candidate, parallel to `chunks` */
+  rerank(query: string, chunks: DocumentChunk[]): Promise<number[]>;
+}
+
+const LOCAL_SIGNAL_WEIGHTS = {
+  coverage: 0.4,    // IDF-weighted share of query words present in the chunk
+  phrase: 0.2,      // share of query bigrams appearing as adjacent tokens
+  identifiers: 0.15, // exact CamelCase / dotted identifiers from the query
+  semantic: 0.25,   // cosine similarity to the query embedding
+};
+
+// Light plural folding so "AprilTags" in a question meets "AprilTag" in code
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+function stemmedTokens(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Whole identifiers/words with stop words dropped
+ */
+function identifierWords(text: string): string[] {
+  return (text.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []).filter(word => tokenize(word).length > 0);
+}
+
+/**
+ * Adjacent word pairs for phrase matching
+ */
+function wordBigrams(text: string): Set<string> {
+  const words = identifierWords(text).map(word => stem(word.toLowerCase()));
+
+  const bigrams = new Set<string>();
+  for (let i = 0; i + 1 < words.length; i++) {
+    bigrams.add(`${words[i]} ${words[i + 1]}`);
+  }
+  return bigrams;
+}
+
+const IDENTIFIER_PATTERN = /\b(?:[A-Za-z_]\w*\.)+[A-Za-z_]\w*|\b[A-Z]?[a-z0-9]+(?:[A-Z][a-z0-9]*)+\b/g;
+const LLM_PASSAGE_CHARS = 700;
+const LLM_TIMEOUT_MS = 20000;
+
+/**
+ * Reranks with signals a bag-of-words first stage misses: how completely the chunk
+ * covers the query, word order, and exact API names
+ */
+export class LocalReranker implements Reranker {
+  readonly id = 'local';
+
+  constructor(private readonly queryEmbedding: number[] | null = null) {}
+
+  async rerank(query: string, chunks: DocumentChunk[]): Promise<number[]> {
+    const queryWords = Array.from(new Set(identifierWords(query))).map(word => stemmedTokens(word));
+    if (queryWords.length === 0 || chunks.length === 0) {
+      return chunks.map(() => 0);
+    }
+
+    const chunkTermSets = chunks.map(chunk => new Set(stemmedTokens(`${chunk.metadata.title}\n${chunk.content}`)));
+
+    // Each query word counts once: a whole-identifier hit scores 1, otherwise the share of its parts
+    // ("AprilTags" against "AprilTagProcessor"), so compound words don't outweigh plain ones
+    const wordMatch = (tokens: string[], terms: Set<string>) => {
+      if (terms.has(tokens[0])) return 1;
+      const parts = tokens.slice(1);
+      return parts.length > 0 ? parts.filter(part => terms.has(part)).length / parts.length : 0;
+    };
+
+    // Rarity within the candidate set: a word every candidate shares says little
+    const rarity = (df: number) => Math.log(1 + chunks.length / (1 + df));
+    const wordIdf = queryWords.map(tokens =>
+      rarity(chunkTermSets.filter(terms => wordMatch(tokens, terms) >= 0.5).length)
+    );
+    const totalIdf = wordIdf.reduce((sum, idf) => sum + idf, 0) || 1;
+
+    const queryBigrams = wordBigrams(query);
+
+    const identifiers = Array.from(new Set(query.match(IDENTIFIER_PATTERN) || []));
+    const identifierRarity = identifiers.map(id =>
+      rarity(chunks.filter(chunk => chunk.content.includes(id)).length) / rarity(0)
+    );
+
+    return chunks.map((chunk, index) => {
+      const terms = chunkTermSets[index];
+      const signals: Partial<Record<keyof typeof LOCAL_SIGNAL_WEIGHTS, number>> = {};
+
+      signals.coverage = queryWords.reduce((sum, tokens, i) => sum + wordMatch(tokens, terms) * wordIdf[i], 0) / totalIdf;
+
+      if (queryBigrams.size > 0) {
+        const chunkBigrams = wordBigrams(chunk.content);
+        let hits = 0;
+        queryBigrams.forEach(bigram => {
+          if (chunkBigrams.has(bigram)) hits++;
+        });
+        signals.phrase = hits / queryBigrams.size;
+      }
+
+      // Identifiers shared by most candidates (e.g. "AprilTag" in an AprilTag query) carry little signal
+      if (identifiers.length > 0) {
+        const matched = identifiers.reduce((sum, id, i) => sum + (chunk.content.includes(id) ? identifierRarity[i] : 0), 0);
+        signals.identifiers = matched / identifiers.length;
+      }
+
+      if (this.queryEmbedding && chunk.embedding) {
+        signals.semantic = Math.max(0, cosineSimilarity(this.queryEmbedding, chunk.embedding));
+      }
+
+      // Weights are renormalized over the signals available for this query
+      let score = 0;
+      let weight = 0;
+      for (const [signal, value] of Object.entries(signals) as Array<[keyof typeof LOCAL_SIGNAL_WEIGHTS, number]>) {
+        score += LOCAL_SIGNAL_WEIGHTS[signal] * value;
+        weight += LOCAL_SIGNAL_WEIGHTS[signal];
+      }
+      return weight > 0 ? score / weight : 0;
+    });
+  }
+}
+
+/**
+ * Asks a small model to grade every candidate in a single call, using the user's key
+ */
+export class LLMReranker implements Reranker {
+  readonly id: string;
+  private readonly model: string;
+  private readonly provider: LLMProvider;
+
+  constructor(config: ProviderConfig, model?: string) {
+    this.model = model || LLM_RERANK_MODELS[config.provider] || config.model || '';
+    this.provider = createProvider(
+      { ...config, model: this.model },
+      { timeout: LLM_TIMEOUT_MS, maxRetries: 0 }
+    );
+    this.id = `llm:${config.provider}:${this.model}`;
+  }
+
+  async rerank(query: string, chunks: DocumentChunk[]): Promise<number[]> {
+    if (chunks.length === 0) return [];
+
+    const passages = chunks
+      .map((chunk, index) => {
+        const label = chunk.metadata.symbol || chunk.metadata.breadcrumb;
+        return `[${index}] ${chunk.metadata.title}${label ? ` (${label})` : ''}\n${chunk.content.slice(0, LLM_PASSAGE_CHARS)}`;
+      })
+      .join('\n\n');
+
+    const prompt = `You are ranking retrieved FTC robotics documentation and source code for a question.
+
+Question: ${query}
+
+Passages:
+${passages}
+
+Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it).
+Respond with only JSON in the form {"scores": [s0, s1, ...]} containing exactly ${chunks.length} numbers in passage order.`;
+
+    const { text } = await this.provider.complete({
+      model: this.model,
+      maxTokens: 1024,
+      temperature: 0,
+      json: true,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    return parseScores(text, chunks.length);
+  }
+}
+
+function parseScores(text: string, count: number): number[] {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Reranker response did not contain JSON');
+  }
+
+  const parsed = JSON.parse(text.slice(start, end + 1));
+  if (!Array.isArray(parsed.scores)) {
+    throw new Error('Reranker response is missing a scores array');
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const value = Number(parsed.scores[i]);
+    return Number.isFinite(value) ? Math.min(10, Math.max(0, value)) / 10 : 0;
+  });
+}
@@ -2,7 +2,7 @@
  * RAG-specific type definitions and constants
  */
 
-import { FTCDocument } from '../types';
+import { AIProvider, FTCDocument } from '../types';
 
 export interface DocumentChunk {
   id: string;
@@ -16,20 +16,43 @@ export interface DocumentChunk {
     sourcePriority: number;
     chunkIndex: number;
     totalChunks: number;
+    symbol?: string;     // e.g. "ConceptAprilTag.initAprilTag" for code chunks
+    breadcrumb?: string; // e.g. "Software > Odometry > Tuning" for .md/.rst sections
+    page?: number;       // 1-based PDF page
+    startLine?: number;  // 1-based, inclusive
+    endLine?: number;    // 1-based, inclusive
   };
 }
 
 export interface EmbeddingModel {
+  readonly modelId: string; // e.g. "openai:text-embedding-3-small"; cached vectors are keyed by it
+  readonly batchDelayMs?: number; // pause between embedding batches for rate-limited APIs
   embed(texts: string[]): Promise<number[][]>;
   embedQuery(text: string): Promise<number[]>;
 }
 
 export interface VectorStore {
   addDocuments(chunks: DocumentChunk[]): Promise<void>;
-  similaritySearch(query: string, k: number): Promise<{ chunk: DocumentChunk; score: number }[]>;
+  similaritySearch(
+    query: string,
+    k: number,
+    options?: { filter?: (chunk: DocumentChunk) => boolean }
+  ): Promise<{ chunk: DocumentChunk; score: number }[]>;
   clear(): Promise<void>;
 }
 
+// Vendor/library recognized by the intent classifier (see vendor-intents.json)
+export interface VendorIntent {
+  id: string;
+  label: string;
+  keywords: string[];       // phrases matched case-insensitively in the prompt
+  classPrefixes: string[];  // identifiers matched case-sensitively, e.g. "Limelight3A"
+  packages: string[];       // Java packages matched in prompts and chunk content
+  sources: string[];        // source URL prefixes whose chunks belong to this vendor
+  queryTerms: string[];     // terms appended to the retrieval query when the vendor is detected
+  configToggles?: string[]; // robotConfig.frameworkToggles keys that imply this vendor
+}
+
 // Source priority mapping (lower = higher priority)
 export enum SourcePriority {
   SDK = 1,
@@ -49,6 +72,7 @@ export const TOP_TEAM_REPOS = [
     name: 'Team 11212 Clueless - 2024 World Champions',
     url: 'https://github.com/FTCclueless/CenterStage',
     priority: SourcePriority.TOP_TEAMS,
+    season: 'CENTERSTAGE 2023-24',
     type: 'github',
     paths: ['TeamCode/src/main/java'],
   },
@@ -56,6 +80,7 @@ export const TOP_TEAM_REPOS = [
     name: 'Team 11212 Clueless - Into The Deep 2024-2025',
     url: 'https://github.com/FTCclueless/IntoTheDeep',
     priority: SourcePriority.TOP_TEAMS,
+    season: 'INTO THE DEEP 2024-25',
     type: 'github',
     paths: ['TeamCode/src/main/java'],
   },
@@ -63,6 +88,7 @@ export const TOP_TEAM_REPOS = [
     name: 'Team 21229 Quality Control - Pedro Pathing',
     url: 'https://github.com/21229QualityControl/Pedro-Pathing-Quickstart',
     priority: SourcePriority.TOP_TEAMS,
+    season: 'DECODE 2025-26',
     type: 'github',
     paths: ['TeamCode/src/main/java'],
   },
@@ -70,6 +96,7 @@ export const TOP_TEAM_REPOS = [
     name: 'Team 492 Titan Robotics - Multi-Year',
     url: 'https://github.com/trc492/Ftc2024CenterStage',
     priority: SourcePriority.TOP_TEAMS,
+    season: 'CENTERSTAGE 2023-24',
     type: 'github',
     paths: ['TeamCode/src/main/java'],
   },
@@ -77,6 +104,7 @@ export const TOP_TEAM_REPOS = [
     name: 'Team 16481 RoboRacers - CenterStage',
     url: 'https://github.com/RoboRacers/FtcRobotController-2024',
     priority: SourcePriority.TOP_TEAMS,
+    season: 'CENTERSTAGE 2023-24',
     type: 'github',
     paths: ['TeamCode/src/main/java'],
   },
@@ -188,13 +216,38 @@ export const FTC_SOURCES = [
 
 export const CURRENT_SEASON = 'DECODE 2025-26';
 
+// Game seasons recognized in prompts; team code is tagged with the season it was written for
+export const SEASONS = [
+  { tag: 'DECODE 2025-26', pattern: /\bDECODE\b/ },
+  { tag: 'INTO THE DEEP 2024-25', pattern: /\binto ?the ?deep\b/i },
+  { tag: 'CENTERSTAGE 2023-24', pattern: /\bcenter ?stage\b/i },
+] as const;
+
 // Chunking configuration
 export const CHUNK_SIZE = 1000;  // characters
 export const CHUNK_OVERLAP = 200; // characters
+export const CODE_CHUNK_MAX_CHARS = 2000; // characters per .java/.kt chunk body (excluding package/imports)
+export const SECTION_CHUNK_MAX_CHARS = 2000; // characters per .md/.rst section chunk
 
 // Retrieval configuration
 export const DEFAULT_TOP_K = 10; // Increased from 5 to get more context
 export const RELEVANCE_THRESHOLD = 0.0; // Accept all matches, let priority weighting sort them
+export const HYBRID_CANDIDATES = 100; // candidates taken from each retriever before fusion
+export const HYBRID_FUSION = {
+  lexicalWeight: 1.0,
+  semanticWeight: 1.0,
+  k: 60,
+};
+export const CONTEXT_BUDGET_RATIO = 0.08; // share of the model's context window spent on retrieved context
+export const CONTEXT_MIN_TOKENS = 2000;
+export const CONTEXT_MAX_TOKENS = 12000;
+export const CONTEXT_TOKENS_PER_CHUNK = 700; // sizing heuristic for how many chunks to retrieve
+export const RERANK_CANDIDATES = 50; // fused candidates rescored by the second-stage reranker
+export const RERANK_BLEND = 0.7; // share of the reranker score vs. the normalized first-stage score
+export const LLM_RERANK_MODELS: Partial<Record<AIProvider, string>> = {
+  anthropic: 'claude-3-5-haiku-20241022',
+  openai: 'gpt-4o-mini',
+};
 export const SOURCE_WEIGHT = {
   [SourcePriority.SDK]: 2.0,
   [SourcePriority.TOP_TEAMS]: 1.9,
@@ -206,3 +259,17 @@ export const SOURCE_WEIGHT = {
   [SourcePriority.OFFICIAL_DOCS]: 1.4,
   [SourcePriority.USER_REPO]: 1.3,
 };
+export const VENDOR_INTENT_BOOST = 1.5; // score x (1 + boost x confidence) for chunks of a detected vendor
+export const OFF_SEASON_WEIGHT = 0.5; // multiplier for other seasons' chunks when the season filter down-weights
+
+export const SOURCE_PRIORITY_LABELS: Record<SourcePriority, string> = {
+  [SourcePriority.SDK]: 'Official SDK samples',
+  [SourcePriority.TOP_TEAMS]: 'Top team code',
+  [SourcePriority.ROADRUNNER]: 'Road Runner',
+  [SourcePriority.FTCLIB]: 'FTCLib',
+  [SourcePriority.LIMELIGHT]: 'Limelight',
+  [SourcePriority.PHOTONVISION]: 'PhotonVision',
+  [SourcePriority.DASHBOARD]: 'FTC Dashboard',
+  [SourcePriority.OFFICIAL_DOCS]: 'Official docs & manual',
+  [SourcePriority.USER_REPO]: 'Your team repo',
+};
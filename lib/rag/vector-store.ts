@@ -0,0 +1,182 @@
+/**
+ * File-backed Vector Store
+ * Persists embeddings under .rag-cache keyed by content hash and embedding model,
+ * so restarts and re-inits only embed new or changed chunks
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+import { DocumentChunk, EmbeddingModel, VectorStore } from './types';
+import { cosineSimilarity } from './embeddings';
+import { createLogger } from '../logger';
+
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), '.rag-cache');
+const EMBED_BATCH_SIZE = 100;
+
+const log = createLogger('VectorStore');
+
+interface VectorIndexFile {
+  model: string;
+  dimensions: number;
+  hashes: string[];
+}
+
+export function hashChunkContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class FileVectorStore implements VectorStore {
+  private vectors = new Map<string, number[]>();
+  private chunks = new Map<string, DocumentChunk>();
+  private loaded = false;
+  private dirty = false;
+  private readonly indexPath: string;
+  private readonly dataPath: string;
+
+  constructor(
+    private readonly model: EmbeddingModel,
+    options: { cacheDir?: string } = {}
+  ) {
+    const cacheDir = options.cacheDir ?? DEFAULT_CACHE_DIR;
+    const slug = model.modelId.replace(/[^a-zA-Z0-9.-]/g, '_');
+    this.indexPath = path.join(cacheDir, `embeddings-${slug}.json`);
+    this.dataPath = path.join(cacheDir, `embeddings-${slug}.f32`);
+  }
+
+  get modelId(): string {
+    return this.model.modelId;
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Load persisted vectors (index of hashes + packed Float32 data)
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as VectorIndexFile;
+      if (index.model !== this.model.modelId) return;
+
+      const data = await fs.readFile(this.dataPath);
+      const floats = new Float32Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+
+      if (floats.length !== index.hashes.length * index.dimensions) {
+        log.warn('Embedding cache is inconsistent, ignoring it');
+        return;
+      }
+
+      index.hashes.forEach((hash, i) => {
+        const start = i * index.dimensions;
+        this.vectors.set(hash, Array.from(floats.subarray(start, start + index.dimensions)));
+      });
+
+      log.info('Loaded cached embeddings', { embeddings: this.vectors.size, model: this.model.modelId });
+    } catch (error) {
+      // Cache miss
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.dirty || this.vectors.size === 0) return;
+
+    const hashes = Array.from(this.vectors.keys());
+    const dimensions = this.vectors.get(hashes[0])!.length;
+    const floats = new Float32Array(hashes.length * dimensions);
+    hashes.forEach((hash, i) => floats.set(this.vectors.get(hash)!, i * dimensions));
+
+    const index: VectorIndexFile = { model: this.model.modelId, dimensions, hashes };
+
+    try {
+      await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+      await fs.writeFile(this.dataPath, Buffer.from(floats.buffer));
+      await fs.writeFile(this.indexPath, JSON.stringify(index), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      log.warn('Failed to persist embeddings', { error });
+    }
+  }
+
+  /**
+   * Add chunks, reusing cached vectors and embedding only unseen content
+   */
+  async addDocuments(chunks: DocumentChunk[]): Promise<void> {
+    await this.load();
+
+    const missing = new Map<string, string>();
+    for (const chunk of chunks) {
+      const hash = hashChunkContent(chunk.content);
+      if (!this.vectors.has(hash)) missing.set(hash, chunk.content);
+    }
+
+    if (missing.size > 0) {
+      log.info('Embedding new chunks', { new: missing.size, reused: chunks.length - missing.size });
+      const entries = Array.from(missing.entries());
+
+      for (let i = 0; i < entries.length; i += EMBED_BATCH_SIZE) {
+        const batch = entries.slice(i, i + EMBED_BATCH_SIZE);
+        const vectors = await this.model.embed(batch.map(([, content]) => content));
+
+        batch.forEach(([hash], j) => this.vectors.set(hash, vectors[j]));
+        this.dirty = true;
+
+        log.info('Embedding progress', { embedded: `${Math.min(i + EMBED_BATCH_SIZE, entries.length)}/${entries.length}` });
+
+        if (this.model.batchDelayMs && i + EMBED_BATCH_SIZE < entries.length) {
+          await new Promise(resolve => setTimeout(resolve, this.model.batchDelayMs));
+        }
+      }
+
+      await this.save();
+    }
+
+    for (const chunk of chunks) {
+      chunk.embedding = this.vectors.get(hashChunkContent(chunk.content));
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    return this.model.embedQuery(query);
+  }
+
+  async similaritySearch(
+    query: string,
+    k: number,
+    options: { filter?: (chunk: DocumentChunk) => boolean } = {}
+  ): Promise<{ chunk: DocumentChunk; score: number }[]> {
+    return this.similaritySearchByVector(await this.embedQuery(query), k, options);
+  }
+
+  /**
+   * Search with a precomputed query embedding (shared with the reranker)
+   */
+  similaritySearchByVector(
+    queryEmbedding: number[],
+    k: number,
+    options: { filter?: (chunk: DocumentChunk) => boolean } = {}
+  ): { chunk: DocumentChunk; score: number }[] {
+    const results: { chunk: DocumentChunk; score: number }[] = [];
+
+    this.chunks.forEach(chunk => {
+      if (!chunk.embedding) return;
+      if (options.filter && !options.filter(chunk)) return;
+      results.push({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Drop the active chunk set. Persisted vectors stay on disk for reuse.
+   */
+  async clear(): Promise<void> {
+    this.chunks.clear();
+  }
+}
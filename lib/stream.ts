@@ -0,0 +1,68 @@
+/**
+ * Streaming Protocol
+ * Encodes /api/claude events as Server-Sent Events and parses them back on the client
+ */
+
+import { StreamResponse } from './types';
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no', // keep reverse proxies from buffering the stream
+};
+
+export function encodeStreamEvent(event: StreamResponse): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parse one SSE block ("event:" / "data:" lines); comments and unknown fields are ignored
+ */
+function parseEventBlock(block: string): StreamResponse | null {
+  const data = block
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+    .join('\n');
+
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as StreamResponse;
+  } catch (error) {
+    console.warn('[Stream] Ignoring malformed event:', data.slice(0, 200));
+    return null;
+  }
+}
+
+/**
+ * Yield events from an SSE response body as they arrive
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const event = parseEventBlock(buffer + decoder.decode());
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
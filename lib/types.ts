@@ -2,9 +2,14 @@
  * Shared type definitions for the FTC AI Wrapper application
  */
 
+import { DocumentChunk } from './rag/types';
+import { PatchResult } from './patch';
+
 export type DriveType = 'mecanum' | 'tank' | 'omni';
 export type Mode = 'full-generation' | 'assist' | 'copilot';
-export type AIProvider = 'anthropic' | 'openai';
+export type AIProvider = 'anthropic' | 'openai' | 'openai-compatible' | 'mock';
+export type SeasonFilterMode = 'exclude' | 'downweight';
+export type RerankerType = 'local' | 'llm' | 'none';
 
 export interface RobotConfig {
   driveType: DriveType;
@@ -26,6 +31,15 @@ export interface GeneratedFile {
   content: string;
 }
 
+// A local source file attached to an Assist request; only selected files are sent
+export interface AttachedFile extends GeneratedFile {
+  size: number;             // bytes
+  selected: boolean;
+}
+
+// Outcome of applying a response's diffs to one attached file, without the patched content
+export type PatchSummary = Omit<PatchResult, 'content'>;
+
 export interface GeneratedDiff {
   path: string;
   diff: string;
@@ -37,9 +51,55 @@ export interface CopilotPlan {
   awaitingConfirmation: boolean;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Usage recorded on an assistant message
+export interface MessageUsage extends TokenUsage {
+  model?: string;
+  costUSD?: number;         // estimate from list prices; absent when the model's pricing is unknown
+}
+
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
+  sources?: RetrievedSource[]; // assistant messages: the retrieved context the answer was grounded in
+  usage?: MessageUsage;        // assistant messages
+  continuations?: number;      // assistant messages: follow-up requests after hitting the output limit
+  truncated?: boolean;         // still cut off after the last continuation
+  patches?: PatchSummary[];    // Assist with attached files: how the diffs applied
+}
+
+// Provider selection saved by APIKeyConfig and sent with each request
+export interface ProviderConfig {
+  provider: AIProvider;
+  apiKey: string;           // may be empty for providers that don't need one
+  model?: string;
+  baseURL?: string;         // 'openai-compatible': e.g. http://localhost:11434/v1
+  contextWindow?: number;   // tokens; overrides the model table (local models)
+}
+
+// What went wrong, as classified by the server from provider/SDK errors
+export type ErrorKind =
+  | 'auth'            // missing, invalid or unauthorized API key
+  | 'rate_limit'      // 429, including exhausted quota
+  | 'overloaded'      // provider at capacity (e.g. Anthropic 529)
+  | 'context_length'  // prompt + output limit exceed the model's context window
+  | 'network'         // provider unreachable or timed out
+  | 'invalid_request' // rejected request, e.g. unknown model or bad base URL
+  | 'server'          // provider 5xx
+  | 'not_ready'       // knowledge base still initializing
+  | 'unknown';
+
+// Body of error responses from /api/claude, and of the stream's `error` event
+export interface APIErrorPayload {
+  kind: ErrorKind;
+  error: string;          // human-readable message from the provider or server
+  status?: number;        // HTTP status, when there was one
+  retryAfterMs?: number;  // provider's suggested wait, when given
+  attempts?: number;      // requests made before giving up
 }
 
 export interface StreamRequest {
@@ -49,11 +109,20 @@ export interface StreamRequest {
   conversationHistory?: Message[];
 }
 
-export interface StreamResponse {
-  type: 'chunk' | 'done' | 'error';
-  content?: string;
-  error?: string;
-}
+// Server-Sent Events emitted by /api/claude; each event's `type` is also its SSE event name
+export type StreamResponse =
+  | { type: 'retrieval'; status: 'started' | 'complete'; documentCount?: number; durationMs?: number }
+  | { type: 'sources'; sources: RetrievedSource[] }
+  | { type: 'delta'; content: string }
+  | ({ type: 'usage' } & MessageUsage)
+  | { type: 'files'; files: GeneratedFile[] }
+  | { type: 'patches'; patches: PatchSummary[] }  // Assist: diffs applied to the attached files
+  | { type: 'continuation'; count: number; max: number }  // output limit hit, resuming
+  | { type: 'retry'; kind: ErrorKind; status?: number; attempt: number; delayMs: number }  // transient failure before output
+  | { type: 'done'; stopReason?: string; continuations?: number; truncated?: boolean }
+  | ({ type: 'error' } & APIErrorPayload);
+
+export type StreamEventType = StreamResponse['type'];
 
 export interface FileDownloadRequest {
   files: GeneratedFile[];
@@ -68,18 +137,73 @@ export interface FTCDocument {
   seasonTag: string;        // e.g., "DECODE 2025-26"
   sourcePriority: number;   // 1=SDK, 2=Docs, 3=Tools, 4=Examples
   lastUpdated: Date;
+  page?: number;            // 1-based page for PDF sources
 }
 
 export interface RAGQuery {
   query: string;
   topK?: number;
-  seasonFilter?: string;
-  sourcePriorityWeights?: Record<number, number>;
+  seasonFilter?: string;                          // season tag, e.g. "DECODE 2025-26"
+  seasonFilterMode?: SeasonFilterMode;            // default 'downweight'
+  sourcePriorityWeights?: Record<number, number>; // overrides SOURCE_WEIGHT per source; 0 excludes the source
+  vendorIntents?: Record<string, number>;        // vendor id -> confidence; classified from `query` when omitted
+  rerank?: {
+    type: RerankerType;     // default 'local'
+    query?: string;         // text to rerank against (e.g. the raw prompt); defaults to `query`
+    llm?: ProviderConfig;   // required for 'llm'
+    model?: string;         // rerank model; defaults per provider, then the chat model
+  };
+  fusion?: {
+    lexicalWeight?: number;   // weight of the BM25 ranking in reciprocal rank fusion
+    semanticWeight?: number;  // weight of the embedding ranking
+    k?: number;               // RRF damping constant
+  };
+}
+
+// Per-result score breakdown for debugging hybrid retrieval
+export interface RetrievalScores {
+  fused: number;            // final score (RRF fusion x source weighting)
+  lexical?: number;         // raw BM25 score
+  lexicalRank?: number;     // 1-based rank in the BM25 list
+  semantic?: number;        // cosine similarity
+  semanticRank?: number;    // 1-based rank in the embedding list
+  rerank?: number;          // second-stage relevance in [0, 1]
+}
+
+export interface RetrievedChunk {
+  chunk: DocumentChunk;
+  document: FTCDocument;
+  score: number;
+  scores: RetrievalScores;
 }
 
 export interface RAGResult {
   documents: FTCDocument[];
   scores: number[];
+  chunks?: DocumentChunk[]; // best-matching chunk per document, parallel to documents
+  scoreDetails?: RetrievalScores[]; // parallel to documents
+  rankedChunks?: RetrievedChunk[];  // final chunks best-first; a document may contribute several
+}
+
+// A source included in the prompt context; `index` matches its [n] citation label
+export interface RetrievedSource {
+  index: number;
+  title: string;
+  url: string;              // GitHub URLs are anchored to the first excerpt's lines
+  priority: number;         // SourcePriority
+  priorityLabel: string;
+  score: number;            // final retrieval score of the document's best chunk
+  startLine?: number;       // span covered by the excerpts shown to the model
+  endLine?: number;
+  page?: number;            // PDF sources
+}
+
+// Retrieval preferences chosen in the workbench and sent with each request
+export interface RetrievalPreferences {
+  seasonFilter: string;           // 'auto' (current season unless the prompt names another), 'all', or a season tag
+  seasonFilterMode: SeasonFilterMode;
+  sourcePriorityWeights: Record<number, number>; // empty = default SOURCE_WEIGHT table
+  reranker: RerankerType;         // 'llm' uses the configured provider and key
 }
 
 // Vendor integration types
@@ -109,3 +233,10 @@ export const DEFAULT_ROBOT_CONFIG: RobotConfig = {
     externalVision: false,
   },
 };
+
+export const DEFAULT_RETRIEVAL_PREFERENCES: RetrievalPreferences = {
+  seasonFilter: 'auto',
+  seasonFilterMode: 'downweight',
+  sourcePriorityWeights: {},
+  reranker: 'local',
+};
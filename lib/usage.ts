@@ -0,0 +1,51 @@
+/**
+ * Token Usage Accounting
+ * Session totals and display formatting for the usage recorded on assistant messages
+ */
+
+import { Message, MessageUsage } from './types';
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;       // sum over messages with known pricing
+  unpriced: number;      // messages whose model has no pricing
+}
+
+export function sumUsage(messages: Message[]): UsageTotals {
+  const totals: UsageTotals = { inputTokens: 0, outputTokens: 0, costUSD: 0, unpriced: 0 };
+
+  for (const { usage } of messages) {
+    if (!usage) continue;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    if (usage.costUSD === undefined) totals.unpriced++;
+    else totals.costUSD += usage.costUSD;
+  }
+
+  return totals;
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * "1.2k in · 850 out · $0.0159" for a message, or a session total
+ */
+export function describeUsage(usage: MessageUsage | UsageTotals): string {
+  const parts = [`${formatTokens(usage.inputTokens)} in`, `${formatTokens(usage.outputTokens)} out`];
+  const priced = 'unpriced' in usage ? usage.costUSD > 0 || usage.unpriced === 0 : usage.costUSD !== undefined;
+  if (priced && usage.costUSD !== undefined) {
+    parts.push(`~${formatCost(usage.costUSD)}`);
+  }
+  return parts.join(' · ');
+}